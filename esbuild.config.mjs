@@ -45,9 +45,38 @@ const context = await esbuild.context({
   },
 });
 
+// Standalone Node entrypoints (run without Obsidian)
+const nodeEntrypoints = [
+  // stdio MCP bridge for Claude Desktop
+  { entry: "src/bridge.ts", outfile: "mcp-bridge.js" },
+  // Headless vault server
+  { entry: "src/server.ts", outfile: "vault-server.js" },
+];
+
+const nodeContexts = await Promise.all(
+  nodeEntrypoints.map(({ entry, outfile }) =>
+    esbuild.context({
+      banner: {
+        js: "#!/usr/bin/env node\n" + banner,
+      },
+      entryPoints: [entry],
+      bundle: true,
+      platform: "node",
+      external: [...builtins],
+      format: "cjs",
+      target: "node18",
+      logLevel: "info",
+      sourcemap: prod ? false : "inline",
+      treeShaking: true,
+      outfile,
+      minify: prod,
+    })
+  )
+);
+
 if (prod) {
-  await context.rebuild();
+  await Promise.all([context, ...nodeContexts].map((ctx) => ctx.rebuild()));
   process.exit(0);
 } else {
-  await context.watch();
+  await Promise.all([context, ...nodeContexts].map((ctx) => ctx.watch()));
 }
@@ -0,0 +1,61 @@
+/**
+ * Obsidian CC stdio MCP bridge
+ *
+ * Standalone Node entrypoint bundled to mcp-bridge.js next to main.js.
+ * Claude Desktop (or any stdio MCP client) launches it with:
+ *
+ *   { "command": "node", "args": ["<vault>/.obsidian/plugins/obsidian-cc/mcp-bridge.js"] }
+ *
+ * Options (flags override environment):
+ *   --port <n>     OBSIDIAN_CC_PORT   MCP server port (default: plugin setting, then 3333)
+ *   --host <h>     OBSIDIAN_CC_HOST   MCP server host (default: 127.0.0.1)
+ *   --token <t>    OBSIDIAN_CC_TOKEN  Auth token (default: discovered via /auth/token;
+ *                                     required once named MCP clients exist)
+ *   --debug        OBSIDIAN_CC_DEBUG  Log diagnostics to stderr
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StdioBridge } from './mcp/bridge/StdioBridge';
+
+const DEFAULT_PORT = 3333;
+
+/**
+ * Read a "--name value" flag from argv
+ */
+function getFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  return value && !value.startsWith('--') ? value : '';
+}
+
+/**
+ * Port configured in the plugin's data.json (the bridge ships in the plugin folder)
+ */
+function readPluginPort(): number | undefined {
+  try {
+    const data = JSON.parse(fs.readFileSync(path.join(__dirname, 'data.json'), 'utf8'));
+    return typeof data.mcpServerPort === 'number' ? data.mcpServerPort : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function resolvePort(): number {
+  const raw = getFlag('port') || process.env.OBSIDIAN_CC_PORT;
+  const port = raw ? parseInt(raw, 10) : NaN;
+  if (!isNaN(port) && port > 0 && port < 65536) {
+    return port;
+  }
+  return readPluginPort() || DEFAULT_PORT;
+}
+
+const bridge = new StdioBridge({
+  host: getFlag('host') || process.env.OBSIDIAN_CC_HOST || '127.0.0.1',
+  port: resolvePort(),
+  token: getFlag('token') || process.env.OBSIDIAN_CC_TOKEN || undefined,
+  debug: getFlag('debug') !== undefined || !!process.env.OBSIDIAN_CC_DEBUG,
+});
+
+bridge.run().then(() => process.exit(0));
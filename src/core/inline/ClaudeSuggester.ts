@@ -173,9 +173,6 @@ export class ClaudeSuggester extends EditorSuggest<ClaudeSuggestion> {
       return;
     }
 
-    const noteContent = await this.plugin.app.vault.read(file);
-    const notePath = file.path;
-
     // Install opens terminal - don't auto-launch after
     if (suggestion.type === 'cc-install') {
       await this.plugin.claudeCLIService.install();
@@ -183,6 +180,12 @@ export class ClaudeSuggester extends EditorSuggest<ClaudeSuggestion> {
       return;
     }
 
+    if (!(await this.plugin.canSendToAI(file.path))) {
+      return;
+    }
+    const noteContent = await this.plugin.app.vault.read(file);
+    const notePath = file.path;
+
     // Launch CLI with note content
     await this.plugin.claudeCLIService.launch(noteContent, notePath);
   }
@@ -375,6 +378,10 @@ export class ClaudeSuggester extends EditorSuggest<ClaudeSuggestion> {
       return;
     }
 
+    if (!(await this.plugin.canSendToAI(this.context.file?.path))) {
+      return;
+    }
+
     // Execute
     this.isExecuting = true;
 
@@ -385,14 +392,19 @@ export class ClaudeSuggester extends EditorSuggest<ClaudeSuggestion> {
       const lineEnd = { line: cursor.line, ch: line.length };
       editor.replaceRange(thinkingChar, lineStart, lineEnd);
 
-      // Build the full prompt
-      const fullPrompt = `Here is the text:\n\n${context}\n\n---\n\n${userPrompt}\n\nRespond with only the result, no explanations or preamble.`;
-
-      // Call Claude API
-      const result = await this.plugin.claudeApi.complete(fullPrompt, undefined, {
-        maxTokens: 2048,
-        temperature: 0.7,
-      });
+      // Build the full prompt, with secrets replaced by placeholders
+      const fullPrompt = this.plugin.redactor.redact(
+        `Here is the text:\n\n${context}\n\n---\n\n${userPrompt}\n\nRespond with only the result, no explanations or preamble.`,
+        this.plugin.app.workspace.getActiveFile()?.path
+      ).text;
+
+      // Call Claude API, filling redacted values back into the result
+      const result = this.plugin.redactor.restore(
+        await this.plugin.claudeApi.complete(fullPrompt, undefined, {
+          maxTokens: 2048,
+          temperature: 0.7,
+        })
+      );
 
       // Replace loading with result
       const currentLine = editor.getLine(cursor.line);
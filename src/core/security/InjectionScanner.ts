@@ -0,0 +1,121 @@
+/**
+ * Prompt-injection detection for vault content returned to agents
+ *
+ * Notes clipped from the web can carry text aimed at the model rather
+ * than the reader. The scanner flags instruction-like passages, HTML
+ * hidden from the reader, and invisible or direction-changing Unicode.
+ * It only reports; MCPServer attaches the findings to tool responses.
+ */
+
+export interface InjectionFinding {
+  kind: 'instruction' | 'hidden-html' | 'invisible-characters' | 'bidi-override' | 'tag-characters';
+  /** 1-based line number */
+  line: number;
+  message: string;
+}
+
+/** Phrases addressed to a model rather than a reader */
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|all|any|system)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules|directions|messages)\b/i,
+  /\byou are now\b|\bfrom now on,? you (?:are|will|must|should)\b/i,
+  /\b(?:new|updated|real|actual) (?:system )?instructions?\s*:/i,
+  /^\s*\[?(?:system|assistant)(?: prompt| message)?\]?\s*:\s*(?:you|ignore|disregard)\b/i,
+  /<\|(?:im_start|im_end|system|endoftext)\|>|\[\/?INST\]|<<\/?SYS>>/i,
+  /\b(?:do not|don't|never) (?:tell|inform|mention|reveal|show)\b[^.\n]{0,30}\bthe user\b/i,
+  /\b(?:send|post|upload|exfiltrate|forward)\b[^.\n]{0,60}\b(?:to|at)\s+https?:\/\//i,
+  /\b(?:call|use|run|invoke)\b[^.\n]{0,20}\b(?:delete_note|delete_folder|write_note|edit_note|move_note|batch)\b/i,
+];
+
+/** Elements styled or marked so the reader never sees them */
+const HIDDEN_HTML_PATTERNS: RegExp[] = [
+  /<[a-z][^>]*\bstyle\s*=\s*["'][^"']*(?:display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0|opacity\s*:\s*0)[^>]*>/i,
+  /<[a-z][^>]*\s(?:hidden|aria-hidden\s*=\s*["']true["'])[\s/>][^>]*>?/i,
+];
+
+// A byte order mark is only suspicious past the start of the text
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\u180E]|(?<!^)\uFEFF/g;
+const BIDI_OVERRIDE = /[\u202A-\u202E\u2066-\u2069]/;
+// Unicode tag characters mirror ASCII invisibly ("ASCII smuggling")
+const TAG_CHARACTERS = /[\u{E0000}-\u{E007F}]+/gu;
+
+/** Findings reported per text, so a hostile note can't flood the response */
+const MAX_FINDINGS = 20;
+const MAX_EXCERPT = 80;
+
+export class InjectionScanner {
+  /**
+   * Suspicious passages in a text, in line order
+   */
+  scan(text: string): InjectionFinding[] {
+    const findings: InjectionFinding[] = [];
+    const lines = text.split('\n');
+
+    for (let i = 0; i < lines.length && findings.length < MAX_FINDINGS; i++) {
+      const line = lines[i];
+      const lineNumber = i + 1;
+
+      for (const pattern of INSTRUCTION_PATTERNS) {
+        const match = line.match(pattern);
+        if (match) {
+          findings.push({
+            kind: 'instruction',
+            line: lineNumber,
+            message: `Instruction-like text on line ${lineNumber}: "${excerpt(match[0])}"`,
+          });
+          break;
+        }
+      }
+
+      for (const pattern of HIDDEN_HTML_PATTERNS) {
+        const match = line.match(pattern);
+        if (match) {
+          findings.push({
+            kind: 'hidden-html',
+            line: lineNumber,
+            message: `Hidden HTML on line ${lineNumber}: "${excerpt(match[0])}"`,
+          });
+          break;
+        }
+      }
+
+      const zeroWidth = (i === 0 ? line : ` ${line}`).match(ZERO_WIDTH);
+      if (zeroWidth) {
+        findings.push({
+          kind: 'invisible-characters',
+          line: lineNumber,
+          message: `${zeroWidth.length} zero-width character${zeroWidth.length === 1 ? '' : 's'} on line ${lineNumber}`,
+        });
+      }
+
+      if (BIDI_OVERRIDE.test(line)) {
+        findings.push({
+          kind: 'bidi-override',
+          line: lineNumber,
+          message: `Text direction override on line ${lineNumber}; the text may read differently than it displays`,
+        });
+      }
+
+      const tags = line.match(TAG_CHARACTERS);
+      if (tags) {
+        const hidden = Array.from(tags.join(''))
+          .map((char) => String.fromCharCode(char.codePointAt(0)! - 0xe0000))
+          .join('');
+        findings.push({
+          kind: 'tag-characters',
+          line: lineNumber,
+          message: `Invisible Unicode tag characters on line ${lineNumber} spelling "${excerpt(hidden)}"`,
+        });
+      }
+    }
+
+    return findings.slice(0, MAX_FINDINGS);
+  }
+}
+
+/**
+ * Shorten a match for a warning, showing control characters as escapes
+ */
+function excerpt(text: string): string {
+  const visible = text.replace(/[\u0000-\u001F\u007F]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+  return visible.length > MAX_EXCERPT ? `${visible.substring(0, MAX_EXCERPT)}…` : visible;
+}
@@ -140,6 +140,34 @@ export class KeychainService {
     await this.deleteSecurely('github-token');
   }
 
+  /**
+   * Store an MCP client's token securely
+   */
+  async storeClientToken(clientId: string, token: string): Promise<void> {
+    await this.storeSecurely(`mcp-client-${clientId}`, token);
+  }
+
+  /**
+   * Retrieve an MCP client's token
+   */
+  async getClientToken(clientId: string): Promise<string | null> {
+    return this.retrieveSecurely(`mcp-client-${clientId}`);
+  }
+
+  /**
+   * Delete an MCP client's token
+   */
+  async deleteClientToken(clientId: string): Promise<void> {
+    await this.deleteSecurely(`mcp-client-${clientId}`);
+  }
+
+  /**
+   * Whether a plugin data key holds a stored secret rather than a setting
+   */
+  static isStorageKey(key: string): boolean {
+    return key.startsWith(`${KeychainService.STORAGE_KEY_PREFIX}-`);
+  }
+
   /**
    * Store a value securely using safeStorage
    */
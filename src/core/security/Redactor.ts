@@ -0,0 +1,233 @@
+/**
+ * Secret and PII redaction for content sent to Claude
+ *
+ * Matches are replaced with placeholders like [REDACTED-EMAIL-1a2b3c4d].
+ * The suffix is an HMAC of the original under a random key, so the same
+ * value always gets the same placeholder and restore() can put originals
+ * back into a response (or into an MCP write) without keeping
+ * per-request state, while short values like PINs or phone numbers
+ * can't be recovered by hashing guesses.
+ * Each placeholder remembers the notes it was issued for, so an MCP
+ * write only gets originals back in the note they came from.
+ */
+
+import { matchesGlob } from '../../utils/glob';
+import { createHmac, randomBytes } from 'crypto';
+import type { ObsidianCCSettings } from '../../settings/SettingsSchema';
+
+export interface Redaction {
+  placeholder: string;
+  /** Detector ID, e.g. 'emails' */
+  detector: string;
+  original: string;
+}
+
+export interface RedactionResult {
+  text: string;
+  redactions: Redaction[];
+}
+
+interface Detector {
+  id: string;
+  label: string;
+  /** Placeholder tag */
+  tag: string;
+  patterns: RegExp[];
+  /** Extra check on a match, e.g. the Luhn checksum for card numbers */
+  validate?: (match: string) => boolean;
+}
+
+/** Built-in detectors, applied in this order */
+export const REDACTION_DETECTORS: Detector[] = [
+  {
+    id: 'private-keys',
+    label: 'Private keys',
+    tag: 'PRIVATE-KEY',
+    patterns: [/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g],
+  },
+  {
+    id: 'api-keys',
+    label: 'API keys and tokens',
+    tag: 'API-KEY',
+    patterns: [
+      /\bsk-ant-[A-Za-z0-9_-]{20,}/g,
+      /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g,
+      /\bgh[pousr]_[A-Za-z0-9]{36,}/g,
+      /\bgithub_pat_[A-Za-z0-9_]{22,}/g,
+      /\bAKIA[0-9A-Z]{16}\b/g,
+      /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+      /\bAIza[0-9A-Za-z_-]{35}/g,
+      // Values of "password: ...", "api_key = ..." and the like
+      /(?<=\b(?:api[_-]?key|secret|token|password|passwd)\s*[:=]\s*['"]?)[^\s'"]{8,}/gi,
+    ],
+  },
+  {
+    id: 'credit-cards',
+    label: 'Credit card numbers',
+    tag: 'CARD',
+    patterns: [/\b\d(?:[ -]?\d){12,18}\b/g],
+    validate: passesLuhn,
+  },
+  {
+    id: 'emails',
+    label: 'Email addresses',
+    tag: 'EMAIL',
+    patterns: [/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g],
+  },
+  {
+    id: 'phone-numbers',
+    label: 'Phone numbers',
+    tag: 'PHONE',
+    // Not part of a longer run of digit groups, e.g. a card number that failed the Luhn check
+    patterns: [
+      /(?<![\w-]|\d[ .])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?|\d{2,4}[ .-])\d{3,4}[ .-]?\d{3,4}(?![\w-]|[ .]\d)/g,
+    ],
+  },
+];
+
+const PLACEHOLDER_PATTERN = /\[REDACTED-[A-Z-]+-[0-9a-f]{8}\]/g;
+
+/** Originals kept for restore(), oldest dropped first */
+const MAX_REMEMBERED = 10000;
+
+interface RememberedOriginal {
+  original: string;
+  /** Notes the placeholder was issued for */
+  paths: Set<string>;
+}
+
+export class Redactor {
+  private settings: ObsidianCCSettings;
+  private originals: Map<string, RememberedOriginal> = new Map();
+  /** Placeholder key; lives as long as the originals it can restore */
+  private key: Buffer;
+
+  /**
+   * @param key HMAC key for placeholders (random by default); redactors
+   * sharing a key give a value the same placeholder
+   */
+  constructor(settings: ObsidianCCSettings, key: Buffer = randomBytes(32)) {
+    this.settings = settings;
+    this.key = key;
+  }
+
+  updateSettings(settings: ObsidianCCSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Whether redaction is on for a note (or for text not from a note)
+   */
+  appliesTo(path?: string): boolean {
+    if (!this.settings.redactionEnabled) {
+      return false;
+    }
+    const folders = this.settings.redactionFolders;
+    if (folders.length === 0 || path === undefined) {
+      return true;
+    }
+    return folders.some((folder) => matchesGlob(path, folder));
+  }
+
+  /**
+   * Replace secrets and personal data with placeholders
+   */
+  redact(text: string, path?: string): RedactionResult {
+    if (!text || !this.appliesTo(path)) {
+      return { text, redactions: [] };
+    }
+
+    const redactions: Redaction[] = [];
+    let result = text;
+
+    for (const detector of this.getDetectors()) {
+      for (const pattern of detector.patterns) {
+        result = result.replace(pattern, (match) => {
+          if (!match || match.includes('[REDACTED-') || (detector.validate && !detector.validate(match))) {
+            return match;
+          }
+          const placeholder = this.placeholderFor(detector.tag, match, path);
+          if (!redactions.some((r) => r.placeholder === placeholder)) {
+            redactions.push({ placeholder, detector: detector.id, original: match });
+          }
+          return placeholder;
+        });
+      }
+    }
+
+    return { text: result, redactions };
+  }
+
+  /**
+   * Put the originals back in place of placeholders this redactor issued.
+   * With a path, only placeholders issued for that note are restored, and
+   * only while redaction applies to it, so content can't carry a secret
+   * into a note that is read unredacted.
+   */
+  restore(text: string, path?: string): string {
+    if (!text || this.originals.size === 0 || (path !== undefined && !this.appliesTo(path))) {
+      return text;
+    }
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+      const remembered = this.originals.get(placeholder);
+      if (!remembered || (path !== undefined && !remembered.paths.has(path))) {
+        return placeholder;
+      }
+      return remembered.original;
+    });
+  }
+
+  /**
+   * Built-in detectors enabled in settings, then custom patterns
+   */
+  private getDetectors(): Detector[] {
+    const enabled = REDACTION_DETECTORS.filter((d) => this.settings.redactionDetectors.includes(d.id));
+
+    const custom: RegExp[] = [];
+    for (const source of this.settings.redactionCustomPatterns) {
+      try {
+        custom.push(new RegExp(source, 'g'));
+      } catch {
+        // Invalid patterns are flagged in settings
+      }
+    }
+    if (custom.length > 0) {
+      enabled.push({ id: 'custom', label: 'Custom patterns', tag: 'CUSTOM', patterns: custom });
+    }
+
+    return enabled;
+  }
+
+  private placeholderFor(tag: string, original: string, path?: string): string {
+    const suffix = createHmac('sha256', this.key).update(original, 'utf8').digest('hex').substring(0, 8);
+    const placeholder = `[REDACTED-${tag}-${suffix}]`;
+
+    const paths = this.originals.get(placeholder)?.paths ?? new Set<string>();
+    if (path !== undefined) {
+      paths.add(path);
+    }
+    this.originals.delete(placeholder);
+    this.originals.set(placeholder, { original, paths });
+    if (this.originals.size > MAX_REMEMBERED) {
+      this.originals.delete(this.originals.keys().next().value!);
+    }
+    return placeholder;
+  }
+}
+
+/**
+ * Luhn checksum, to tell card numbers from other long digit runs
+ */
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
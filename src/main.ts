@@ -1,15 +1,25 @@
 import { Notice, Plugin, WorkspaceLeaf, TFile } from 'obsidian';
-import { ObsidianCCSettings, DEFAULT_SETTINGS } from './settings/SettingsSchema';
+import { randomBytes } from 'crypto';
+import { ObsidianCCSettings, DEFAULT_SETTINGS, ApprovalRule, MCPClient } from './settings/SettingsSchema';
 import { KeychainService } from './core/security/KeychainService';
 import { InputSanitizer } from './core/security/InputSanitizer';
+import { Redactor } from './core/security/Redactor';
 import { ClaudeAPI } from './core/api/ClaudeAPI';
 import { SettingsTab } from './settings/SettingsTab';
 import { InlineRenderer } from './core/inline/InlineRenderer';
 import { TriggerParser, ParsedTrigger } from './core/inline/TriggerParser';
 import { MCPServer } from './mcp/MCPServer';
+import { ObsidianVaultAccess } from './mcp/vault/ObsidianVaultAccess';
+import { ApprovalModal } from './ui/ApprovalModal';
+import { AgentChangesView, VIEW_TYPE_AGENT_CHANGES } from './ui/AgentChangesView';
+import { AuditLogView, VIEW_TYPE_AUDIT_LOG } from './ui/AuditLogView';
+import { describeChange } from './mcp/vault/SnapshotStore';
+import { hashContent } from './utils/hash';
+import { describeApprovalRule } from './mcp/security/ApprovalRules';
 import { ClaudeSuggester } from './core/inline/ClaudeSuggester';
 import { QMDSearchModal } from './ui/QMDSearchModal';
 import { QuickAskModal } from './ui/QuickAskModal';
+import { RedactionPreviewModal } from './ui/RedactionPreviewModal';
 import { QMDClient } from './mcp/integrations/QMDClient';
 import { ClaudeCLIService } from './core/cli/ClaudeCLIService';
 
@@ -30,6 +40,7 @@ export default class ObsidianCCPlugin extends Plugin {
   settings!: ObsidianCCSettings;
   keychainService!: KeychainService;
   sanitizer!: InputSanitizer;
+  redactor!: Redactor;
   claudeApi!: ClaudeAPI;
   inlineRenderer!: InlineRenderer;
   triggerParser!: TriggerParser;
@@ -46,6 +57,7 @@ export default class ObsidianCCPlugin extends Plugin {
     // Initialize core services
     this.keychainService = new KeychainService(this);
     this.sanitizer = new InputSanitizer();
+    this.redactor = new Redactor(this.settings);
     this.claudeApi = new ClaudeAPI(this.keychainService, {
       model: this.settings.model,
       maxTokens: this.settings.maxTokens,
@@ -76,7 +88,14 @@ export default class ObsidianCCPlugin extends Plugin {
     }
 
     // Initialize MCP server
-    this.mcpServer = new MCPServer(this.app, this.settings);
+    this.mcpServer = new MCPServer(
+      new ObsidianVaultAccess(this.app),
+      this.settings,
+      (operation, respond) =>
+        new ApprovalModal(this.app, operation, respond, (rule) => this.addApprovalRule(rule)).open()
+    );
+    this.registerView(VIEW_TYPE_AGENT_CHANGES, (leaf) => new AgentChangesView(leaf, this.mcpServer.getSnapshots()));
+    this.registerView(VIEW_TYPE_AUDIT_LOG, (leaf) => new AuditLogView(leaf, this.mcpServer.getAuditLogger()));
 
     // Initialize QMD client
     const vaultPath = (this.app.vault.adapter as any).basePath || '';
@@ -152,9 +171,24 @@ export default class ObsidianCCPlugin extends Plugin {
       console.log('Obsidian CC: @claude trigger', { trigger, contextLength: context.length });
     }
 
+    const path = this.app.workspace.getActiveFile()?.path;
+    if (!(await this.canSendToAI(path))) {
+      throw new Error(`${path} is excluded from AI`);
+    }
+
+    // Redact secrets before they leave the vault, and fill them back into the result
+    const redactedContext = this.redactor.redact(context, path);
+    const redactedArgs = this.redactor.redact(trigger.args, path);
+    const redactions = redactedContext.redactions.length + redactedArgs.redactions.length;
+    if (redactions > 0) {
+      new Notice(`Redacted ${redactions} item${redactions === 1 ? '' : 's'} before sending to Claude`);
+    }
+
     // Execute via inline renderer
     try {
-      const result = await this.inlineRenderer.execute(trigger, context);
+      const result = this.redactor.restore(
+        await this.inlineRenderer.execute({ ...trigger, args: redactedArgs.text }, redactedContext.text)
+      );
 
       if (this.settings.auditLogging) {
         console.log('Obsidian CC: Inline execution completed', {
@@ -183,6 +217,9 @@ export default class ObsidianCCPlugin extends Plugin {
 
     // Get current file for context
     const activeFile = this.app.workspace.getActiveFile();
+    if (!(await this.canSendToAI(activeFile?.path))) {
+      return;
+    }
     const notePath = activeFile?.path || 'untitled';
 
     // Build full note content (context + trigger args if any)
@@ -195,6 +232,22 @@ export default class ObsidianCCPlugin extends Plugin {
     await this.claudeCLIService.launch(noteContent, notePath);
   }
 
+  /**
+   * Whether a note may be sent to Claude (see AIExclusions); tells the user if not
+   */
+  async canSendToAI(path: string | undefined): Promise<boolean> {
+    if (!path) {
+      return true;
+    }
+    const exclusions = this.mcpServer.getAIExclusions();
+    await exclusions.refresh();
+    if (exclusions.isExcluded(path)) {
+      new Notice(`${path} is excluded from AI (.aiignore, "ai: false" or an excluded tag)`);
+      return false;
+    }
+    return true;
+  }
+
   async onunload(): Promise<void> {
     console.log('Unloading Obsidian CC plugin');
 
@@ -209,7 +262,50 @@ export default class ObsidianCCPlugin extends Plugin {
   }
 
   async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+    // KeychainService stores secrets in the same file; keep what it last wrote
+    const stored = (await this.loadData()) || {};
+    const data: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(this.settings)) {
+      if (!KeychainService.isStorageKey(key)) data[key] = value;
+    }
+    for (const [key, value] of Object.entries(stored)) {
+      if (KeychainService.isStorageKey(key)) data[key] = value;
+    }
+    await this.saveData(data);
+  }
+
+  /**
+   * Register a named MCP client and return its new token
+   */
+  async createMCPClient(client: Omit<MCPClient, 'id' | 'tokenHash' | 'createdAt'>): Promise<string> {
+    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const token = `occ_${randomBytes(24).toString('base64url')}`;
+    await this.keychainService.storeClientToken(id, token);
+    this.settings.mcpClients = [
+      ...this.settings.mcpClients,
+      { ...client, id, tokenHash: hashContent(token), createdAt: Date.now() },
+    ];
+    await this.saveSettings();
+    return token;
+  }
+
+  /**
+   * Revoke an MCP client: its token stops working immediately
+   */
+  async revokeMCPClient(id: string): Promise<void> {
+    this.settings.mcpClients = this.settings.mcpClients.filter((client) => client.id !== id);
+    await this.keychainService.deleteClientToken(id);
+    await this.saveSettings();
+  }
+
+  /**
+   * Persist an approval rule created from the approval modal
+   */
+  async addApprovalRule(rule: Omit<ApprovalRule, 'id'>): Promise<void> {
+    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    this.settings.approvalRules = [...this.settings.approvalRules, { ...rule, id }];
+    await this.saveSettings();
+    new Notice(`Approval rule added: ${describeApprovalRule(rule)}`);
   }
 
   /**
@@ -233,11 +329,33 @@ export default class ObsidianCCPlugin extends Plugin {
       id: 'quick-ask',
       name: 'Quick Ask Claude',
       hotkeys: [{ modifiers: ['Mod'], key: 'j' }],
-      editorCallback: (editor) => {
+      editorCallback: async (editor) => {
         // Get current context from editor
         const selection = editor.getSelection();
         const context = selection || '';
-        new QuickAskModal(this.app, this.claudeApi, context).open();
+        const path = this.app.workspace.getActiveFile()?.path;
+        if (context && !(await this.canSendToAI(path))) {
+          return;
+        }
+        new QuickAskModal(this.app, this.claudeApi, this.redactor, context, path).open();
+      },
+    });
+
+    // Show what redaction would remove from the current note
+    this.addCommand({
+      id: 'preview-redaction',
+      name: 'Preview Redaction',
+      editorCallback: (editor, view) => {
+        if (!this.settings.redactionEnabled) {
+          new Notice('Redaction is off; turn it on in Settings → Security → Redaction');
+          return;
+        }
+        const path = view.file?.path;
+        if (path && !this.redactor.appliesTo(path)) {
+          new Notice(`${path} is outside the redacted folders`);
+          return;
+        }
+        new RedactionPreviewModal(this.app, this.redactor.redact(editor.getValue(), path)).open();
       },
     });
 
@@ -260,6 +378,38 @@ export default class ObsidianCCPlugin extends Plugin {
       },
     });
 
+    // Revert the most recent change made by an MCP client
+    this.addCommand({
+      id: 'undo-last-agent-change',
+      name: 'Undo Last Agent Change',
+      callback: async () => {
+        try {
+          const change = await this.mcpServer.getSnapshots().undoLast();
+          new Notice(`Undone: ${describeChange(change)}`);
+        } catch (error) {
+          new Notice(`Undo failed: ${error instanceof Error ? error.message : error}`);
+        }
+      },
+    });
+
+    // Review and undo MCP client changes
+    this.addCommand({
+      id: 'open-agent-changes',
+      name: 'Open Agent Changes',
+      callback: () => {
+        this.activateSidebarView(VIEW_TYPE_AGENT_CHANGES);
+      },
+    });
+
+    // Browse, verify and export the MCP audit log
+    this.addCommand({
+      id: 'open-audit-log',
+      name: 'Open MCP Audit Log',
+      callback: () => {
+        this.activateSidebarView(VIEW_TYPE_AUDIT_LOG);
+      },
+    });
+
     // New project from GitHub
     this.addCommand({
       id: 'new-project-github',
@@ -306,6 +456,25 @@ export default class ObsidianCCPlugin extends Plugin {
     }
   }
 
+  /**
+   * Reveal a view in the right sidebar, creating it if needed
+   */
+  async activateSidebarView(viewType: string): Promise<void> {
+    const { workspace } = this.app;
+
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(viewType)[0] || null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      if (leaf) {
+        await leaf.setViewState({ type: viewType, active: true });
+      }
+    }
+
+    if (leaf) {
+      workspace.revealLeaf(leaf);
+    }
+  }
+
   /**
    * Check if API key is configured
    */
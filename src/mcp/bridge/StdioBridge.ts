@@ -0,0 +1,363 @@
+/**
+ * stdio ⇄ Streamable HTTP bridge
+ *
+ * Lets stdio-only MCP clients (Claude Desktop and others) talk to the
+ * plugin's HTTP MCP server. Reads newline-delimited JSON-RPC from stdin,
+ * forwards it to /mcp, and writes responses and server notifications
+ * to stdout. Diagnostics go to stderr so stdout stays protocol-clean.
+ */
+
+import * as readline from 'readline';
+import {
+  ErrorCode,
+  LATEST_PROTOCOL_VERSION,
+  createError,
+  createNotification,
+  isJsonRpcMessage,
+  isJsonRpcRequest,
+} from '../protocol/JsonRpc';
+import { JsonRpcRequest } from '../types';
+
+export interface StdioBridgeOptions {
+  host: string;
+  port: number;
+  /** Fixed token; when omitted it is fetched from /auth/token */
+  token?: string;
+  debug?: boolean;
+}
+
+/**
+ * The server wants a token the bridge doesn't have: named clients are
+ * set up (so /auth/token is disabled) and none was passed, or the one
+ * passed was rejected
+ */
+class TokenRequiredError extends Error {
+  constructor(rejected: boolean) {
+    super(
+      rejected
+        ? 'Obsidian CC rejected the token passed with --token or OBSIDIAN_CC_TOKEN. Copy a current client token from Obsidian CC settings (Security → MCP clients).'
+        : 'Obsidian CC needs a client token: MCP clients are set up in its settings, so the token can\'t be discovered. Pass --token <token> or set OBSIDIAN_CC_TOKEN to a token from Security → MCP clients.'
+    );
+    this.name = 'TokenRequiredError';
+  }
+}
+
+export class StdioBridge {
+  private options: StdioBridgeOptions;
+  private token: string | null;
+  private sessionId: string | null = null;
+  private protocolVersion = LATEST_PROTOCOL_VERSION;
+  private initializeRequest: JsonRpcRequest | null = null;
+  private streamAbort: AbortController | null = null;
+  private closed = false;
+
+  /** Serialize forwarding so responses keep request order */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: StdioBridgeOptions) {
+    this.options = options;
+    this.token = options.token || null;
+  }
+
+  /**
+   * Start reading stdin until it closes
+   */
+  run(): Promise<void> {
+    const rl = readline.createInterface({ input: process.stdin, terminal: false });
+
+    rl.on('line', (line) => {
+      if (!line.trim()) return;
+      this.queue = this.queue.then(() => this.handleLine(line));
+    });
+
+    return new Promise((resolve) => {
+      rl.on('close', () => {
+        this.queue.then(() => this.shutdown()).then(resolve);
+      });
+    });
+  }
+
+  /**
+   * Forward one line from stdin
+   */
+  private async handleLine(line: string): Promise<void> {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.write(createError(null, ErrorCode.ParseError, 'Parse error'));
+      return;
+    }
+
+    const messages = Array.isArray(message) ? message : [message];
+    if (messages.length === 0 || !messages.every(isJsonRpcMessage)) {
+      this.write(createError(null, ErrorCode.InvalidRequest, 'Invalid Request'));
+      return;
+    }
+
+    try {
+      await this.forward(message);
+    } catch (error) {
+      if (error instanceof TokenRequiredError) {
+        // Not a debug detail: without a token nothing will work
+        console.error('[obsidian-cc bridge]', error.message);
+        for (const m of messages) {
+          if (isJsonRpcRequest(m)) {
+            this.write(createError(m.id, ErrorCode.InternalError, error.message));
+          }
+        }
+        return;
+      }
+      this.log('Forwarding failed:', error);
+      // Answer every request so the client doesn't hang waiting
+      for (const m of messages) {
+        if (isJsonRpcRequest(m)) {
+          this.write(
+            createError(
+              m.id,
+              ErrorCode.InternalError,
+              'Cannot reach Obsidian CC. Make sure Obsidian is running with the MCP server enabled.',
+              { detail: String(error) }
+            )
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * POST a message to the server, recovering from token or session loss once
+   */
+  private async forward(message: unknown, retry = true): Promise<void> {
+    const isInitialize = isJsonRpcRequest(message) && message.method === 'initialize';
+    if (isInitialize) {
+      this.initializeRequest = message as JsonRpcRequest;
+      this.sessionId = null;
+    }
+
+    const response = await this.post(message, !isInitialize);
+
+    // Token rotates whenever the plugin restarts
+    if (response.status === 401 && retry) {
+      this.token = null;
+      return this.forward(message, false);
+    }
+
+    // Session expired or server restarted: transparently re-initialize
+    if (response.status === 404 && retry && !isInitialize && this.initializeRequest) {
+      this.log('Session lost, re-initializing');
+      await this.reinitialize();
+      return this.forward(message, false);
+    }
+
+    if (isInitialize && response.ok) {
+      this.sessionId = response.headers.get('mcp-session-id');
+      const body = await response.json();
+      this.protocolVersion = body?.result?.protocolVersion || this.protocolVersion;
+      this.write(body);
+      this.openNotificationStream();
+      return;
+    }
+
+    await this.relay(response);
+  }
+
+  /**
+   * Replay the client's initialize handshake against a fresh session
+   */
+  private async reinitialize(): Promise<void> {
+    this.closeNotificationStream();
+    this.sessionId = null;
+
+    const response = await this.post(this.initializeRequest, false);
+    if (!response.ok) {
+      throw new Error(`Re-initialize failed with HTTP ${response.status}`);
+    }
+    this.sessionId = response.headers.get('mcp-session-id');
+    await response.text();
+
+    const initialized = await this.post(createNotification('notifications/initialized'), true);
+    await initialized.text();
+    this.openNotificationStream();
+  }
+
+  /**
+   * Write a server response (JSON or SSE) to stdout
+   */
+  private async relay(response: Response): Promise<void> {
+    if (response.status === 202 || response.status === 204) {
+      return;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      await this.readEventStream(response, (data) => this.writeRaw(data));
+      return;
+    }
+
+    const text = await response.text();
+    if (!text) return;
+
+    try {
+      this.write(JSON.parse(text));
+    } catch {
+      this.log(`Unexpected HTTP ${response.status} response:`, text);
+    }
+  }
+
+  /**
+   * Open the GET stream carrying server-initiated notifications
+   */
+  private async openNotificationStream(attempt = 0): Promise<void> {
+    if (this.closed || !this.sessionId) return;
+
+    this.closeNotificationStream();
+    const controller = new AbortController();
+    this.streamAbort = controller;
+    const sessionId = this.sessionId;
+
+    try {
+      const response = await fetch(this.endpoint('/mcp'), {
+        method: 'GET',
+        headers: { ...(await this.headers(true)), Accept: 'text/event-stream' },
+        signal: controller.signal,
+      });
+
+      // Server does not offer a stream; notifications are simply unavailable
+      if (response.status === 405) return;
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      attempt = 0;
+      await this.readEventStream(response, (data) => this.writeRaw(data));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this.log('Notification stream error:', error);
+    }
+
+    // Reconnect with backoff while the session is still ours
+    if (!this.closed && this.sessionId === sessionId && !controller.signal.aborted) {
+      const delay = Math.min(30000, 1000 * 2 ** attempt);
+      setTimeout(() => this.openNotificationStream(attempt + 1), delay);
+    }
+  }
+
+  private closeNotificationStream(): void {
+    this.streamAbort?.abort();
+    this.streamAbort = null;
+  }
+
+  /**
+   * Parse an SSE body, calling onData for each event's data payload
+   */
+  private async readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const data = event
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (data) {
+          onData(data);
+        }
+
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  }
+
+  /**
+   * End the HTTP session when stdin closes
+   */
+  private async shutdown(): Promise<void> {
+    this.closed = true;
+    this.closeNotificationStream();
+
+    if (!this.sessionId) return;
+    try {
+      await fetch(this.endpoint('/mcp'), { method: 'DELETE', headers: await this.headers(true) });
+    } catch {
+      // Server already gone
+    }
+    this.sessionId = null;
+  }
+
+  private async post(message: unknown, withSession: boolean): Promise<Response> {
+    return fetch(this.endpoint('/mcp'), {
+      method: 'POST',
+      headers: {
+        ...(await this.headers(withSession)),
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(message),
+    });
+  }
+
+  private async headers(withSession: boolean): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${await this.getToken()}`,
+    };
+    if (withSession && this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+    return headers;
+  }
+
+  /**
+   * Discover the auth token from the plugin (localhost only)
+   */
+  private async getToken(): Promise<string> {
+    if (this.token) {
+      return this.token;
+    }
+
+    const response = await fetch(this.endpoint('/auth/token'));
+    if (response.status === 403) {
+      throw new TokenRequiredError(!!this.options.token);
+    }
+    if (!response.ok) {
+      throw new Error(`Token discovery failed with HTTP ${response.status}`);
+    }
+    const body = (await response.json()) as { token?: string };
+    if (!body.token) {
+      throw new Error('Token discovery returned no token');
+    }
+
+    this.token = body.token;
+    return this.token;
+  }
+
+  private endpoint(pathname: string): string {
+    return `http://${this.options.host}:${this.options.port}${pathname}`;
+  }
+
+  private write(message: unknown): void {
+    this.writeRaw(JSON.stringify(message));
+  }
+
+  private writeRaw(line: string): void {
+    process.stdout.write(line.replace(/\n/g, ' ') + '\n');
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.error('[obsidian-cc bridge]', ...args);
+    }
+  }
+}
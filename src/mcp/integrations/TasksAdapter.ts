@@ -5,8 +5,8 @@
  * https://github.com/obsidian-tasks-group/obsidian-tasks
  */
 
-import { TFile, Vault } from 'obsidian';
 import { ParsedTask, TaskData, TaskQuery } from '../types';
+import type { VaultAccess } from '../vault/VaultAccess';
 import type { ObsidianCCSettings } from '../../settings/SettingsSchema';
 
 /**
@@ -62,10 +62,10 @@ const RECURRENCE_PATTERN = /(?:🔁|recurrence::?\s*)([^📅⏳🛫✅➕🔺⏫
 const TAG_PATTERN = /#[\w\-/]+/g;
 
 export class TasksAdapter {
-  private vault: Vault;
+  private vault: VaultAccess;
   private settings: ObsidianCCSettings;
 
-  constructor(vault: Vault, settings: ObsidianCCSettings) {
+  constructor(vault: VaultAccess, settings: ObsidianCCSettings) {
     this.vault = vault;
     this.settings = settings;
   }
@@ -201,7 +201,7 @@ export class TasksAdapter {
         continue;
       }
 
-      const content = await this.vault.read(file);
+      const content = await this.vault.read(file.path);
       const lines = content.split('\n');
 
       for (let i = 0; i < lines.length; i++) {
@@ -285,16 +285,15 @@ export class TasksAdapter {
    * Add a task to a note
    */
   async addTask(task: TaskData, notePath: string): Promise<ParsedTask> {
-    const file = this.vault.getAbstractFileByPath(notePath);
-    if (!(file instanceof TFile)) {
+    if (!this.vault.getFile(notePath)) {
       throw new Error(`Note not found: ${notePath}`);
     }
 
-    const content = await this.vault.read(file);
+    const content = await this.vault.read(notePath);
     const taskLine = this.formatTask(task);
     const newContent = content + '\n' + taskLine;
 
-    await this.vault.modify(file, newContent);
+    await this.vault.modify(notePath, newContent);
 
     const lineNumber = newContent.split('\n').length;
     return this.parseTask(taskLine, notePath, lineNumber)!;
@@ -304,15 +303,34 @@ export class TasksAdapter {
    * Complete a task by ID
    */
   async completeTask(taskId: string): Promise<ParsedTask | null> {
+    const { filePath, lines, lineIndex } = await this.locateTask(taskId);
+
+    lines[lineIndex] = this.markComplete(lines[lineIndex]);
+    await this.vault.modify(filePath, lines.join('\n'));
+
+    return this.parseTask(lines[lineIndex], filePath, lineIndex + 1);
+  }
+
+  /**
+   * The task line before and after completing it, without writing
+   */
+  async previewCompletion(taskId: string): Promise<{ before: string; after: string }> {
+    const { lines, lineIndex } = await this.locateTask(taskId);
+    return { before: lines[lineIndex], after: this.markComplete(lines[lineIndex]) };
+  }
+
+  /**
+   * Find the note lines and index of a task ID ("path:line")
+   */
+  private async locateTask(taskId: string): Promise<{ filePath: string; lines: string[]; lineIndex: number }> {
     const [filePath, lineStr] = taskId.split(':');
     const lineNumber = parseInt(lineStr, 10);
 
-    const file = this.vault.getAbstractFileByPath(filePath);
-    if (!(file instanceof TFile)) {
+    if (!this.vault.getFile(filePath)) {
       throw new Error(`Note not found: ${filePath}`);
     }
 
-    const content = await this.vault.read(file);
+    const content = await this.vault.read(filePath);
     const lines = content.split('\n');
     const lineIndex = lineNumber - 1;
 
@@ -320,23 +338,24 @@ export class TasksAdapter {
       throw new Error(`Invalid line number: ${lineNumber}`);
     }
 
-    const task = this.parseTask(lines[lineIndex], filePath, lineNumber);
-    if (!task) {
+    if (!this.parseTask(lines[lineIndex], filePath, lineNumber)) {
       throw new Error(`No task found at line ${lineNumber}`);
     }
 
-    // Mark as complete
-    lines[lineIndex] = lines[lineIndex].replace(/- \[ \]/, '- [x]');
+    return { filePath, lines, lineIndex };
+  }
+
+  /**
+   * Check off a task line and add today's completion date
+   */
+  private markComplete(line: string): string {
+    let completed = line.replace(/- \[ \]/, '- [x]');
 
-    // Add completion date
     const today = new Date().toISOString().split('T')[0];
-    if (!lines[lineIndex].includes('✅')) {
-      lines[lineIndex] += ` ✅ ${today}`;
+    if (!completed.includes('✅')) {
+      completed += ` ✅ ${today}`;
     }
-
-    await this.vault.modify(file, lines.join('\n'));
-
-    return this.parseTask(lines[lineIndex], filePath, lineNumber);
+    return completed;
   }
 
   /**
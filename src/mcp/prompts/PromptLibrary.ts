@@ -0,0 +1,160 @@
+/**
+ * MCP prompts backed by vault notes
+ *
+ * Every note in the configured prompts folder is a prompt. Frontmatter
+ * declares its name, description and arguments; the body is the
+ * prompt text, with {{argument}} placeholders filled in on prompts/get.
+ *
+ *   ---
+ *   name: summarize
+ *   description: Summarize a note
+ *   arguments:
+ *     - name: note
+ *       description: Path of the note
+ *       required: true
+ *   ---
+ *   Summarize [[{{note}}]] in three bullet points.
+ */
+
+import { PathValidator } from '../security/PathValidator';
+import { ErrorCode, JsonRpcError } from '../protocol/JsonRpc';
+import { splitFrontmatter } from '../vault/MarkdownParser';
+import type { VaultAccess } from '../vault/VaultAccess';
+import type { PromptArgument, PromptDefinition } from '../types';
+import type { ObsidianCCSettings } from '../../settings/SettingsSchema';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export class PromptLibrary {
+  private vault: VaultAccess;
+  private pathValidator: PathValidator;
+  private settings: ObsidianCCSettings;
+
+  constructor(vault: VaultAccess, pathValidator: PathValidator, settings: ObsidianCCSettings) {
+    this.vault = vault;
+    this.pathValidator = pathValidator;
+    this.settings = settings;
+  }
+
+  /**
+   * Vault folder holding prompt notes, or null when prompts are disabled
+   */
+  getFolder(): string | null {
+    const folder = this.settings.mcpPromptsFolder;
+    if (!folder) {
+      return null;
+    }
+
+    const validation = this.pathValidator.validateFolder(folder);
+    return validation.valid ? validation.sanitizedPath || null : null;
+  }
+
+  /**
+   * Check whether a vault path is inside the prompts folder
+   */
+  contains(path: string): boolean {
+    const folder = this.getFolder();
+    return !!folder && path.startsWith(folder + '/') && path.toLowerCase().endsWith('.md');
+  }
+
+  /**
+   * List all prompts, sorted by name. The first note wins on duplicate names.
+   */
+  list(): PromptDefinition[] {
+    const prompts = new Map<string, PromptDefinition>();
+
+    const files = this.vault
+      .getMarkdownFiles()
+      .filter((file) => this.contains(file.path))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    for (const file of files) {
+      const frontmatter = this.vault.getMetadata(file.path)?.frontmatter || {};
+      const prompt = this.toDefinition(file.path, file.basename, frontmatter);
+      if (!prompts.has(prompt.name)) {
+        prompts.set(prompt.name, prompt);
+      }
+    }
+
+    return Array.from(prompts.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Render a prompt with the given arguments
+   */
+  async get(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<{ description?: string; messages: unknown[] }> {
+    const prompt = this.list().find((p) => p.name === name);
+    if (!prompt) {
+      throw new JsonRpcError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments
+      .filter((arg) => arg.required && !args[arg.name])
+      .map((arg) => arg.name);
+    if (missing.length > 0) {
+      throw new JsonRpcError(
+        ErrorCode.InvalidParams,
+        `Missing required arguments: ${missing.join(', ')}`
+      );
+    }
+
+    const content = await this.vault.read(prompt.path);
+    const { body } = splitFrontmatter(content);
+
+    // Unknown placeholders are left as written; declared but omitted ones render empty
+    const declared = new Set(prompt.arguments.map((arg) => arg.name));
+    const text = body.trim().replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+      if (key in args) return args[key];
+      return declared.has(key) ? '' : match;
+    });
+
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+
+  private toDefinition(
+    path: string,
+    basename: string,
+    frontmatter: Record<string, unknown>
+  ): PromptDefinition {
+    const name = typeof frontmatter.name === 'string' && frontmatter.name.trim()
+      ? frontmatter.name.trim()
+      : basename;
+
+    return {
+      name,
+      description: typeof frontmatter.description === 'string' ? frontmatter.description : undefined,
+      arguments: this.parseArguments(frontmatter.arguments),
+      path,
+    };
+  }
+
+  /**
+   * Accept either a list of names or a list of { name, description, required }
+   */
+  private parseArguments(raw: unknown): PromptArgument[] {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+
+    const args: PromptArgument[] = [];
+    for (const item of raw) {
+      if (typeof item === 'string' && item.trim()) {
+        args.push({ name: item.trim(), required: false });
+      } else if (typeof item === 'object' && item !== null && typeof (item as Record<string, unknown>).name === 'string') {
+        const record = item as Record<string, unknown>;
+        args.push({
+          name: (record.name as string).trim(),
+          description: typeof record.description === 'string' ? record.description : undefined,
+          required: record.required === true,
+        });
+      }
+    }
+    return args;
+  }
+}
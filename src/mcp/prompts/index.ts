@@ -0,0 +1,5 @@
+/**
+ * Prompts module exports
+ */
+
+export { PromptLibrary } from './PromptLibrary';
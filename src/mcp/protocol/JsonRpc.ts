@@ -0,0 +1,153 @@
+/**
+ * JSON-RPC 2.0 helpers for the MCP Streamable HTTP transport
+ *
+ * https://www.jsonrpc.org/specification
+ * https://modelcontextprotocol.io/specification/2025-03-26/basic/transports
+ */
+
+import {
+  JsonRpcErrorResponse,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcSuccess,
+} from '../types';
+
+export const JSONRPC_VERSION = '2.0';
+
+/**
+ * MCP protocol revisions this server speaks, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/**
+ * HTTP headers defined by the Streamable HTTP transport
+ */
+export const SESSION_HEADER = 'mcp-session-id';
+export const PROTOCOL_VERSION_HEADER = 'mcp-protocol-version';
+
+/**
+ * Standard JSON-RPC error codes
+ */
+export const ErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  // Implementation-defined server errors (-32000 to -32099)
+  BadRequest: -32000,
+  SessionNotFound: -32001,
+  // MCP-defined
+  ResourceNotFound: -32002,
+} as const;
+
+/**
+ * Error thrown by method handlers, mapped to a JSON-RPC error response
+ */
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Check if a value is a JSON-RPC request (has method and id)
+ */
+export function isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+  if (!isJsonRpcObject(message)) return false;
+  const id = (message as Record<string, unknown>).id;
+  return (
+    typeof (message as Record<string, unknown>).method === 'string' &&
+    (typeof id === 'string' || typeof id === 'number')
+  );
+}
+
+/**
+ * Check if a value is a JSON-RPC notification (has method, no id)
+ */
+export function isJsonRpcNotification(message: unknown): message is JsonRpcNotification {
+  if (!isJsonRpcObject(message)) return false;
+  return (
+    typeof (message as Record<string, unknown>).method === 'string' &&
+    !('id' in (message as Record<string, unknown>))
+  );
+}
+
+/**
+ * Check if a value is a JSON-RPC response (result or error, no method)
+ */
+export function isJsonRpcResponse(message: unknown): message is JsonRpcResponse {
+  if (!isJsonRpcObject(message)) return false;
+  const record = message as Record<string, unknown>;
+  return !('method' in record) && ('result' in record || 'error' in record);
+}
+
+/**
+ * Check if a value is any well-formed JSON-RPC message
+ */
+export function isJsonRpcMessage(message: unknown): message is JsonRpcMessage {
+  return isJsonRpcRequest(message) || isJsonRpcNotification(message) || isJsonRpcResponse(message);
+}
+
+function isJsonRpcObject(message: unknown): boolean {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    !Array.isArray(message) &&
+    (message as Record<string, unknown>).jsonrpc === JSONRPC_VERSION
+  );
+}
+
+/**
+ * Build a success response
+ */
+export function createResult(id: string | number, result: unknown): JsonRpcSuccess {
+  return { jsonrpc: JSONRPC_VERSION, id, result };
+}
+
+/**
+ * Build an error response
+ */
+export function createError(
+  id: string | number | null,
+  code: number,
+  message: string,
+  data?: unknown
+): JsonRpcErrorResponse {
+  const error: JsonRpcErrorResponse['error'] = { code, message };
+  if (data !== undefined) {
+    error.data = data;
+  }
+  return { jsonrpc: JSONRPC_VERSION, id, error };
+}
+
+/**
+ * Build a notification message
+ */
+export function createNotification(
+  method: string,
+  params?: Record<string, unknown>
+): JsonRpcNotification {
+  return params ? { jsonrpc: JSONRPC_VERSION, method, params } : { jsonrpc: JSONRPC_VERSION, method };
+}
+
+/**
+ * Pick the protocol version to use for a session.
+ * Echo the client's version when supported, otherwise offer our latest.
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return LATEST_PROTOCOL_VERSION;
+}
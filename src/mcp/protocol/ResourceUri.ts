@@ -0,0 +1,59 @@
+/**
+ * Resource URIs for vault notes
+ *
+ * Notes are exposed as obsidian://vault/<path>, with each path
+ * segment percent-encoded.
+ */
+
+export const RESOURCE_URI_PREFIX = 'obsidian://vault/';
+
+/**
+ * URI template advertised via resources/templates/list (RFC 6570)
+ */
+export const RESOURCE_URI_TEMPLATE = 'obsidian://vault/{+path}';
+
+/**
+ * Build the resource URI for a vault path
+ */
+export function toResourceUri(vaultPath: string): string {
+  return RESOURCE_URI_PREFIX + vaultPath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Extract the vault path from a resource URI, or null if it isn't one of ours
+ */
+export function fromResourceUri(uri: string): string | null {
+  if (!uri.startsWith(RESOURCE_URI_PREFIX)) {
+    return null;
+  }
+
+  try {
+    return uri
+      .slice(RESOURCE_URI_PREFIX.length)
+      .split('/')
+      .map(decodeURIComponent)
+      .join('/');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * MIME type for a vault file by extension
+ */
+export function getMimeType(vaultPath: string): string {
+  const extension = vaultPath.substring(vaultPath.lastIndexOf('.') + 1).toLowerCase();
+  switch (extension) {
+    case 'md':
+      return 'text/markdown';
+    case 'json':
+      return 'application/json';
+    case 'yaml':
+    case 'yml':
+      return 'application/yaml';
+    case 'csv':
+      return 'text/csv';
+    default:
+      return 'text/plain';
+  }
+}
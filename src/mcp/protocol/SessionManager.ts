@@ -0,0 +1,190 @@
+/**
+ * MCP session tracking for the Streamable HTTP transport
+ *
+ * Sessions are created on initialize and identified by the
+ * Mcp-Session-Id header. Each session may hold open SSE streams
+ * used for server-initiated notifications.
+ */
+
+import { ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { JsonRpcNotification, MCPSession } from '../types';
+
+export class SessionManager {
+  private sessions: Map<string, MCPSession> = new Map();
+  private streams: Map<string, Set<ServerResponse>> = new Map();
+  private subscriptions: Map<string, Set<string>> = new Map();
+  private readonly sessionTtl = 24 * 60 * 60 * 1000; // 24 hours idle
+
+  /**
+   * Create a new session after a successful initialize
+   */
+  create(
+    protocolVersion: string,
+    clientInfo?: MCPSession['clientInfo'],
+    clientCapabilities: Record<string, unknown> = {}
+  ): MCPSession {
+    this.pruneExpired();
+    const now = Date.now();
+    const session: MCPSession = {
+      id: randomUUID(),
+      protocolVersion,
+      clientInfo,
+      clientCapabilities,
+      initialized: false,
+      createdAt: now,
+      lastActivity: now,
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Look up a session and mark it active.
+   * Returns undefined for unknown or expired sessions.
+   */
+  get(id: string): MCPSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (now - session.lastActivity > this.sessionTtl) {
+      this.delete(id);
+      return undefined;
+    }
+
+    session.lastActivity = now;
+    return session;
+  }
+
+  /**
+   * Terminate a session and close its streams
+   */
+  delete(id: string): boolean {
+    const streams = this.streams.get(id);
+    if (streams) {
+      for (const res of streams) {
+        res.end();
+      }
+      this.streams.delete(id);
+    }
+    this.subscriptions.delete(id);
+    return this.sessions.delete(id);
+  }
+
+  /**
+   * Attach an open SSE response to a session
+   */
+  attachStream(id: string, res: ServerResponse): void {
+    let streams = this.streams.get(id);
+    if (!streams) {
+      streams = new Set();
+      this.streams.set(id, streams);
+    }
+    streams.add(res);
+
+    res.on('close', () => {
+      this.streams.get(id)?.delete(res);
+    });
+  }
+
+  /**
+   * Send a notification to every open stream of a session.
+   * Returns false if the session has no stream to deliver to.
+   */
+  notify(id: string, notification: JsonRpcNotification): boolean {
+    const streams = this.streams.get(id);
+    if (!streams || streams.size === 0) {
+      return false;
+    }
+
+    const event = `event: message\ndata: ${JSON.stringify(notification)}\n\n`;
+    for (const res of streams) {
+      res.write(event);
+    }
+    return true;
+  }
+
+  /**
+   * Send a notification to all sessions
+   */
+  broadcast(notification: JsonRpcNotification): void {
+    for (const id of this.sessions.keys()) {
+      this.notify(id, notification);
+    }
+  }
+
+  /**
+   * Subscribe a session to updates for a resource URI
+   */
+  subscribe(id: string, uri: string): void {
+    let uris = this.subscriptions.get(id);
+    if (!uris) {
+      uris = new Set();
+      this.subscriptions.set(id, uris);
+    }
+    uris.add(uri);
+  }
+
+  /**
+   * Remove a resource subscription
+   */
+  unsubscribe(id: string, uri: string): void {
+    this.subscriptions.get(id)?.delete(uri);
+  }
+
+  /**
+   * Sessions subscribed to a resource URI
+   */
+  getSubscribers(uri: string): string[] {
+    const subscribers: string[] = [];
+    for (const [id, uris] of this.subscriptions) {
+      if (uris.has(uri)) {
+        subscribers.push(id);
+      }
+    }
+    return subscribers;
+  }
+
+  /**
+   * Move subscriptions from one URI to another (after a rename)
+   */
+  renameSubscriptions(oldUri: string, newUri: string): void {
+    for (const uris of this.subscriptions.values()) {
+      if (uris.delete(oldUri)) {
+        uris.add(newUri);
+      }
+    }
+  }
+
+  /**
+   * List active sessions
+   */
+  list(): MCPSession[] {
+    this.pruneExpired();
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Drop sessions idle past the TTL, so ones clients never end don't pile up
+   */
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [id, session] of Array.from(this.sessions)) {
+      if (now - session.lastActivity > this.sessionTtl) {
+        this.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Terminate all sessions
+   */
+  closeAll(): void {
+    for (const id of Array.from(this.sessions.keys())) {
+      this.delete(id);
+    }
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Notes kept away from AI entirely
+ *
+ * A note is excluded when it matches the vault's .aiignore file
+ * (gitignore syntax), has `ai: false` in its frontmatter, or carries one
+ * of the excluded tags from settings. MCPServer serves every tool through
+ * wrap(), which hides excluded notes and refuses to read or write them;
+ * the plugin checks isExcluded() before sending the current note inline
+ * or to the CLI.
+ */
+
+import type { VaultAccess } from '../vault/VaultAccess';
+import { TagService, normalizeTag } from '../vault/TagService';
+import { matchesGlob } from '../../utils/glob';
+import type { ObsidianCCSettings } from '../../settings/SettingsSchema';
+
+export const AI_IGNORE_FILE = '.aiignore';
+
+/** How long a read of .aiignore is reused */
+const REFRESH_INTERVAL_MS = 2000;
+
+interface IgnoreRule {
+  glob: string;
+  /** "!pattern" re-includes what earlier rules excluded */
+  negated: boolean;
+}
+
+export class AIExclusions {
+  private vault: VaultAccess;
+  private settings: ObsidianCCSettings;
+  private tags: TagService;
+  private rules: IgnoreRule[] = [];
+  private loadedAt = 0;
+
+  /**
+   * @param vault Unfiltered vault, for .aiignore and note metadata
+   */
+  constructor(vault: VaultAccess, settings: ObsidianCCSettings) {
+    this.vault = vault;
+    this.settings = settings;
+    this.tags = new TagService(vault);
+  }
+
+  updateSettings(settings: ObsidianCCSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Re-read .aiignore unless it was read moments ago
+   */
+  async refresh(force = false): Promise<void> {
+    if (!force && Date.now() - this.loadedAt < REFRESH_INTERVAL_MS) {
+      return;
+    }
+    this.rules = parseIgnoreFile((await this.vault.readRootFile(AI_IGNORE_FILE)) || '');
+    this.loadedAt = Date.now();
+  }
+
+  /**
+   * Whether a note or folder is off-limits to AI
+   */
+  isExcluded(path: string): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (matchesGlob(path, rule.glob)) {
+        ignored = !rule.negated;
+      }
+    }
+    if (ignored) {
+      return true;
+    }
+    if (!path.toLowerCase().endsWith('.md')) {
+      return false;
+    }
+
+    const frontmatter = this.vault.getMetadata(path)?.frontmatter;
+    if (frontmatter && (frontmatter.ai === false || String(frontmatter.ai).toLowerCase() === 'false')) {
+      return true;
+    }
+
+    const excludedTags = this.settings.aiExcludedTags.map((tag) => normalizeTag(tag).toLowerCase());
+    if (excludedTags.length === 0) {
+      return false;
+    }
+    // Nested tags count too: #private/health is excluded by "private"
+    return this.tags.getNoteTags(path).some((tag) => {
+      const name = tag.toLowerCase();
+      return excludedTags.some((excluded) => name === excluded || name.startsWith(`${excluded}/`));
+    });
+  }
+
+  /**
+   * The vault without excluded notes
+   */
+  wrap(vault: VaultAccess): VaultAccess {
+    const visible = (path: string) => !this.isExcluded(path);
+    const allowed = (path: string) => {
+      if (!visible(path)) {
+        throw new Error(`Access denied: ${path} is excluded from AI access`);
+      }
+    };
+    const filterLinks = (links: Record<string, Record<string, number>>, targets: boolean) => {
+      const result: Record<string, Record<string, number>> = {};
+      for (const [source, linked] of Object.entries(links)) {
+        if (!visible(source)) continue;
+        result[source] = targets
+          ? Object.fromEntries(Object.entries(linked).filter(([target]) => visible(target)))
+          : linked;
+      }
+      return result;
+    };
+
+    const filtered: Partial<VaultAccess> = {
+      getMarkdownFiles: () => vault.getMarkdownFiles().filter((file) => visible(file.path)),
+      getFiles: () => vault.getFiles().filter((file) => visible(file.path)),
+      getFile: (path) => (visible(path) ? vault.getFile(path) : null),
+      isFolder: (path) => visible(path) && vault.isFolder(path),
+      getMetadata: (path) => (visible(path) ? vault.getMetadata(path) : null),
+      getResolvedLinks: () => filterLinks(vault.getResolvedLinks(), true),
+      getUnresolvedLinks: () => filterLinks(vault.getUnresolvedLinks(), false),
+      resolveLink: (link, sourcePath) => {
+        const resolved = vault.resolveLink(link, sourcePath);
+        return resolved && visible(resolved) ? resolved : null;
+      },
+      read: async (path) => {
+        allowed(path);
+        return vault.read(path);
+      },
+      create: async (path, content) => {
+        allowed(path);
+        return vault.create(path, content);
+      },
+      modify: async (path, content) => {
+        allowed(path);
+        return vault.modify(path, content);
+      },
+      readBinary: async (path) => {
+        allowed(path);
+        return vault.readBinary(path);
+      },
+      writeBinary: async (path, data) => {
+        allowed(path);
+        return vault.writeBinary(path, data);
+      },
+      createFolder: async (path) => {
+        allowed(path);
+        return vault.createFolder(path);
+      },
+      rename: async (path, newPath) => {
+        allowed(path);
+        allowed(newPath);
+        return vault.rename(path, newPath);
+      },
+      trash: async (path, system) => {
+        allowed(path);
+        return vault.trash(path, system);
+      },
+      delete: async (path) => {
+        allowed(path);
+        return vault.delete(path);
+      },
+      processFrontMatter: async (path, fn) => {
+        allowed(path);
+        return vault.processFrontMatter(path, fn);
+      },
+    };
+
+    return new Proxy(vault, {
+      get: (target, property, receiver) => {
+        if (property in filtered) {
+          return filtered[property as keyof VaultAccess];
+        }
+        const value = Reflect.get(target, property, receiver);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+  }
+}
+
+/**
+ * Turn gitignore lines into vault path globs. Patterns without a slash
+ * (other than a trailing one) match at any depth; a leading slash
+ * anchors a pattern to the vault root.
+ */
+function parseIgnoreFile(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.substring(1);
+    }
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const anchored = line.startsWith('/') || line.replace(/\/$/, '').includes('/');
+    line = line.replace(/^\/+/, '');
+    if (!line) {
+      continue;
+    }
+
+    rules.push({ glob: anchored || line.startsWith('**/') ? line : `**/${line}`, negated });
+  }
+  return rules;
+}
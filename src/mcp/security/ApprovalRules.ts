@@ -0,0 +1,78 @@
+/**
+ * Persistent approval rules
+ *
+ * Rules match an operation by tool, vault path glob and client. Of the
+ * rules that match, deny wins over ask and ask over allow, so a broad
+ * "allow Inbox/**" can't override a narrower "deny Inbox/Private/**".
+ */
+
+import { MCPOperation } from '../types';
+import { matchesGlob } from '../../utils/glob';
+import { parentFolder } from '../../utils/vaultPath';
+import type { ApprovalRule } from '../../settings/SettingsSchema';
+
+const EFFECT_PRIORITY: Record<ApprovalRule['effect'], number> = { deny: 3, ask: 2, allow: 1 };
+
+/**
+ * The deciding rule for an operation, or null if no rule matches
+ */
+export function findApprovalRule(rules: ApprovalRule[], operation: MCPOperation): ApprovalRule | null {
+  let decided: ApprovalRule | null = null;
+
+  for (const rule of rules) {
+    if (!matchesRule(rule, operation)) continue;
+    if (!decided || EFFECT_PRIORITY[rule.effect] > EFFECT_PRIORITY[decided.effect]) {
+      decided = rule;
+    }
+  }
+
+  return decided;
+}
+
+/**
+ * Rule for the "Always allow" button: this tool, in the folder of the
+ * operation's path, for the requesting client
+ */
+export function suggestAllowRule(operation: MCPOperation): Omit<ApprovalRule, 'id'> | null {
+  if (!operation.path || operation.destructive) {
+    return null;
+  }
+
+  const folder = parentFolder(operation.path);
+  return {
+    effect: 'allow',
+    tool: operation.tool,
+    path: folder ? `${folder}/**` : operation.path,
+    client: operation.clientId || '*',
+  };
+}
+
+/**
+ * One-line summary, e.g. "allow write_note in Inbox/** for any client"
+ */
+export function describeApprovalRule(rule: Omit<ApprovalRule, 'id'>): string {
+  const tool = rule.tool === '*' ? 'all write tools' : rule.tool;
+  const client = rule.client === '*' ? 'any client' : rule.client;
+  return `${rule.effect} ${tool} in ${rule.path} for ${client}`;
+}
+
+function matchesRule(rule: ApprovalRule, operation: MCPOperation): boolean {
+  if (rule.tool !== '*' && rule.tool !== operation.tool) return false;
+  if (rule.client !== '*' && rule.client !== operation.clientId) return false;
+
+  // A catch-all allow never skips the confirmation for deletes; name the tool to do that
+  if (rule.effect === 'allow' && operation.destructive && rule.tool === '*') return false;
+
+  const glob = rule.path.trim();
+  if (glob === '' || glob === '**') return true;
+
+  const paths = [operation.path, operation.destination, ...(operation.paths || [])].filter(
+    (path): path is string => !!path
+  );
+  if (paths.length === 0) return false;
+
+  // Allowing needs every touched path covered; denying or asking needs any
+  return rule.effect === 'allow'
+    ? paths.every((path) => matchesGlob(path, glob))
+    : paths.some((path) => matchesGlob(path, glob));
+}
@@ -2,18 +2,63 @@
  * Audit logging for MCP operations
  *
  * Logs all MCP tool calls and resource accesses for security review.
+ * Entries are appended to JSONL files in the plugin's data folder, which
+ * rotate by size. Each entry carries the hash of the one before it, so
+ * editing or removing a line breaks the chain and shows up in verifyLog().
  */
 
 import { AuditEntry } from '../types';
+import type { VaultAccess } from '../vault/VaultAccess';
 import type { ObsidianCCSettings } from '../../settings/SettingsSchema';
+import { hashContent } from '../../utils/hash';
+
+const AUDIT_FOLDER = 'plugins/obsidian-cc/audit';
+const ACTIVE_FILE = 'audit.jsonl';
+/** prevHash of the very first entry */
+const GENESIS_HASH = '0'.repeat(64);
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  'timestamp',
+  'type',
+  'tool',
+  'path',
+  'clientId',
+  'success',
+  'error',
+  'details',
+  'hash',
+];
+
+export interface AuditVerification {
+  valid: boolean;
+  /** Entries checked */
+  entries: number;
+  /** Where and how the chain is broken */
+  error?: string;
+}
 
 export class AuditLogger {
   private settings: ObsidianCCSettings;
+  private vault: VaultAccess;
   private logs: AuditEntry[] = [];
   private maxLogSize = 1000;
+  /** Hash of the last written entry; null until read from disk */
+  private lastHash: string | null = null;
+  private activeSize = 0;
+  // File writes run one at a time, in log order
+  private queue: Promise<unknown> = Promise.resolve();
+  private listeners: Set<(entry: AuditEntry) => void> = new Set();
+  /** Client of the request being handled, for entries logged without one */
+  private getClientId: () => string | undefined;
 
-  constructor(settings: ObsidianCCSettings) {
+  constructor(
+    settings: ObsidianCCSettings,
+    vault: VaultAccess,
+    getClientId: () => string | undefined = () => undefined
+  ) {
     this.settings = settings;
+    this.vault = vault;
+    this.getClientId = getClientId;
   }
 
   /**
@@ -26,6 +71,7 @@ export class AuditLogger {
 
     const entry: AuditEntry = {
       ...event,
+      clientId: event.clientId ?? this.getClientId(),
       timestamp: new Date().toISOString(),
     };
 
@@ -41,6 +87,15 @@ export class AuditLogger {
     if (this.settings.debugMode) {
       console.log('[MCP Audit]', JSON.stringify(entry, null, 2));
     }
+
+    this.enqueue(async () => {
+      try {
+        await this.append(entry);
+      } catch (error) {
+        console.error('[MCP Audit] Failed to write audit log:', error);
+      }
+      this.listeners.forEach((listener) => listener(entry));
+    });
   }
 
   /**
@@ -134,17 +189,90 @@ export class AuditLogger {
   }
 
   /**
-   * Clear logs
+   * Clear the in-memory logs (the audit files are kept)
    */
   clearLogs(): void {
     this.logs = [];
   }
 
   /**
-   * Export logs as JSON
+   * Every entry in the audit files, oldest first
    */
-  exportLogs(): string {
-    return JSON.stringify(this.logs, null, 2);
+  async readLog(): Promise<AuditEntry[]> {
+    await this.queue;
+    const entries: AuditEntry[] = [];
+    for (const file of await this.listFiles()) {
+      for (const line of await this.readLines(file)) {
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          // Reported by verifyLog()
+        }
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Check the hash chain across the audit files. Entries in files
+   * already rotated away can't be checked, so the chain starts at the
+   * oldest file kept.
+   */
+  async verifyLog(): Promise<AuditVerification> {
+    await this.queue;
+    let expected: string | null = null;
+    let entries = 0;
+
+    for (const file of await this.listFiles()) {
+      const lines = await this.readLines(file);
+      for (let i = 0; i < lines.length; i++) {
+        const where = `${file} line ${i + 1}`;
+        let parsed: AuditEntry;
+        try {
+          parsed = JSON.parse(lines[i]);
+        } catch {
+          return { valid: false, entries, error: `${where} is not valid JSON` };
+        }
+
+        const { hash, ...rest } = parsed;
+        if (expected !== null && parsed.prevHash !== expected) {
+          return { valid: false, entries, error: `${where} does not follow the previous entry` };
+        }
+        if (hash !== hashContent(JSON.stringify(rest))) {
+          return { valid: false, entries, error: `${where} was modified` };
+        }
+
+        expected = hash;
+        entries++;
+      }
+    }
+
+    return { valid: true, entries };
+  }
+
+  /**
+   * Export entries (default: the in-memory logs) as JSON or CSV
+   */
+  exportLogs(entries: AuditEntry[] = this.logs, format: 'json' | 'csv' = 'json'): string {
+    if (format === 'json') {
+      return JSON.stringify(entries, null, 2);
+    }
+
+    const rows = entries.map((entry) =>
+      CSV_COLUMNS.map((column) => {
+        const value = entry[column];
+        return csvField(value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value));
+      }).join(',')
+    );
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * Listen for new entries; returns a function that stops listening
+   */
+  onEntry(listener: (entry: AuditEntry) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
   }
 
   /**
@@ -153,4 +281,93 @@ export class AuditLogger {
   updateSettings(settings: ObsidianCCSettings): void {
     this.settings = settings;
   }
+
+  private async append(entry: AuditEntry): Promise<void> {
+    if (this.lastHash === null) {
+      await this.loadTail();
+    }
+
+    entry.prevHash = this.lastHash!;
+    entry.hash = hashContent(JSON.stringify(entry));
+    const line = JSON.stringify(entry) + '\n';
+    const size = Buffer.byteLength(line, 'utf8');
+
+    if (this.activeSize > 0 && this.activeSize + size > this.settings.auditMaxFileMb * 1024 * 1024) {
+      await this.rotate();
+    }
+
+    await this.vault.appendConfigFile(`${AUDIT_FOLDER}/${ACTIVE_FILE}`, line);
+    this.activeSize += size;
+    this.lastHash = entry.hash;
+  }
+
+  /**
+   * Pick up the chain where the files on disk end
+   */
+  private async loadTail(): Promise<void> {
+    const active = await this.vault.readConfigFile(`${AUDIT_FOLDER}/${ACTIVE_FILE}`);
+    this.activeSize = active ? Buffer.byteLength(active, 'utf8') : 0;
+    this.lastHash = GENESIS_HASH;
+
+    const files = await this.listFiles();
+    for (let i = files.length - 1; i >= 0; i--) {
+      const lines = await this.readLines(files[i]);
+      if (lines.length > 0) {
+        try {
+          this.lastHash = JSON.parse(lines[lines.length - 1]).hash || GENESIS_HASH;
+        } catch {
+          // A damaged last line; verifyLog() reports it
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Move the active file aside and drop the oldest files over the limit
+   */
+  private async rotate(): Promise<void> {
+    const content = await this.vault.readConfigFile(`${AUDIT_FOLDER}/${ACTIVE_FILE}`);
+    if (content) {
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      await this.vault.writeConfigFile(`${AUDIT_FOLDER}/audit-${stamp}.jsonl`, content);
+      await this.vault.removeConfigFile(`${AUDIT_FOLDER}/${ACTIVE_FILE}`);
+    }
+    this.activeSize = 0;
+
+    const rotated = (await this.listFiles()).filter((file) => file !== ACTIVE_FILE);
+    const excess = rotated.length - Math.max(this.settings.auditMaxFiles - 1, 0);
+    for (const file of rotated.slice(0, Math.max(excess, 0))) {
+      await this.vault.removeConfigFile(`${AUDIT_FOLDER}/${file}`);
+    }
+  }
+
+  /**
+   * Audit files, oldest first
+   */
+  private async listFiles(): Promise<string[]> {
+    const files = await this.vault.listConfigFolder(AUDIT_FOLDER);
+    const rotated = files.filter((file) => /^audit-.+\.jsonl$/.test(file)).sort();
+    return files.includes(ACTIVE_FILE) ? [...rotated, ACTIVE_FILE] : rotated;
+  }
+
+  private async readLines(file: string): Promise<string[]> {
+    const content = await this.vault.readConfigFile(`${AUDIT_FOLDER}/${file}`);
+    return content ? content.split('\n').filter((line) => line.trim() !== '') : [];
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Quote a CSV field. Paths and details come from agents, so cells a
+ * spreadsheet would read as a formula get a leading '
+ */
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
 }
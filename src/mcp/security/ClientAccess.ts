@@ -0,0 +1,221 @@
+/**
+ * Per-client credentials and scopes
+ *
+ * Each named client (Settings → MCP Server → Clients) has its own token,
+ * scope and optional folder restriction. MCPServer runs each request
+ * inside run() with the authenticated client; the vault returned by
+ * wrap() hides files outside the client's folders and refuses writes
+ * from read-only scopes, so every tool is restricted without checking
+ * paths tool by tool.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { timingSafeEqual } from 'crypto';
+import type { VaultAccess } from '../vault/VaultAccess';
+import { isWriteTool } from './OperationGuard';
+import { matchesGlob } from '../../utils/glob';
+import { hashContent } from '../../utils/hash';
+import type { MCPClient, ObsidianCCSettings } from '../../settings/SettingsSchema';
+
+/** Tools each limited scope can call ('read-only' allows every non-write tool) */
+const SCOPE_TOOLS: Record<'tasks-only' | 'search-only', string[]> = {
+  'tasks-only': ['list_tasks', 'add_task', 'complete_task'],
+  'search-only': ['search_vault', 'query_by_property', 'notes_with_tag'],
+};
+
+/** Client ID for the per-start token used while no named clients exist */
+export const DEFAULT_CLIENT_ID = 'default';
+
+export type AuthResult = { client: MCPClient } | { error: string };
+
+export class ClientAccess {
+  private settings: ObsidianCCSettings;
+  private current = new AsyncLocalStorage<MCPClient>();
+
+  constructor(settings: ObsidianCCSettings) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: ObsidianCCSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Whether named clients are configured (which disables the per-start token)
+   */
+  hasClients(): boolean {
+    return this.settings.mcpClients.length > 0;
+  }
+
+  /**
+   * Find the client a bearer token belongs to
+   */
+  authenticate(token: string): AuthResult {
+    const hash = Buffer.from(hashContent(token), 'hex');
+    const client = this.settings.mcpClients.find((c) => {
+      const expected = Buffer.from(c.tokenHash, 'hex');
+      return expected.length === hash.length && timingSafeEqual(expected, hash);
+    });
+
+    if (!client) {
+      return { error: 'Unknown or revoked token' };
+    }
+    if (client.expiresAt !== null && Date.now() > client.expiresAt) {
+      return { error: `Token for ${client.name} expired` };
+    }
+    return { client };
+  }
+
+  /**
+   * Run a request on behalf of a client (none for the per-start token)
+   */
+  run<T>(client: MCPClient | null, fn: () => T): T {
+    return client ? this.current.run(client, fn) : fn();
+  }
+
+  /**
+   * ID of the client making the current request
+   */
+  getClientId(): string {
+    return this.current.getStore()?.name ?? DEFAULT_CLIENT_ID;
+  }
+
+  /**
+   * Whether the current client's scope includes a tool
+   */
+  allowsTool(tool: string): boolean {
+    const client = this.current.getStore();
+    if (!client || client.scope === 'full') {
+      return true;
+    }
+    if (client.scope === 'read-only') {
+      return !isWriteTool(tool);
+    }
+    return SCOPE_TOOLS[client.scope].includes(tool);
+  }
+
+  /**
+   * Whether the current client can read notes directly (resources, prompts)
+   */
+  allowsNoteAccess(): boolean {
+    const client = this.current.getStore();
+    return !client || client.scope === 'full' || client.scope === 'read-only';
+  }
+
+  /**
+   * Whether the current client can see a vault path
+   */
+  allowsPath(path: string): boolean {
+    const client = this.current.getStore();
+    if (!client || client.folders.length === 0) {
+      return true;
+    }
+    return client.folders.some((folder) => matchesGlob(path, folder.endsWith('/') ? folder : `${folder}/`));
+  }
+
+  /**
+   * The vault as the current client may see it
+   */
+  wrap(vault: VaultAccess): VaultAccess {
+    const visible = (path: string) => this.allowsPath(path);
+    // Folders leading to an allowed folder stay visible, so parents can be walked and created
+    const leadsToFolder = (path: string) => {
+      const prefix = `${path.toLowerCase()}/`;
+      const folders = this.current.getStore()?.folders || [];
+      return visible(prefix) || folders.some((folder) => folder.toLowerCase().startsWith(prefix));
+    };
+    const readable = (path: string) => {
+      if (!visible(path)) {
+        throw new Error(`Access denied: ${path} is outside ${this.getClientId()}'s folders`);
+      }
+    };
+    const canWrite = () => {
+      const client = this.current.getStore();
+      if (client && (client.scope === 'read-only' || client.scope === 'search-only')) {
+        throw new Error(`Access denied: ${client.name} is ${client.scope}`);
+      }
+    };
+    const writable = (path: string) => {
+      readable(path);
+      canWrite();
+    };
+    const filterLinks = (links: Record<string, Record<string, number>>, targets: boolean) => {
+      const result: Record<string, Record<string, number>> = {};
+      for (const [source, linked] of Object.entries(links)) {
+        if (!visible(source)) continue;
+        result[source] = targets
+          ? Object.fromEntries(Object.entries(linked).filter(([target]) => visible(target)))
+          : linked;
+      }
+      return result;
+    };
+
+    const scoped: Partial<VaultAccess> = {
+      getMarkdownFiles: () => vault.getMarkdownFiles().filter((file) => visible(file.path)),
+      getFiles: () => vault.getFiles().filter((file) => visible(file.path)),
+      getFile: (path) => (visible(path) ? vault.getFile(path) : null),
+      isFolder: (path) => leadsToFolder(path) && vault.isFolder(path),
+      getMetadata: (path) => (visible(path) ? vault.getMetadata(path) : null),
+      getResolvedLinks: () => filterLinks(vault.getResolvedLinks(), true),
+      getUnresolvedLinks: () => filterLinks(vault.getUnresolvedLinks(), false),
+      resolveLink: (link, sourcePath) => {
+        const resolved = vault.resolveLink(link, sourcePath);
+        return resolved && visible(resolved) ? resolved : null;
+      },
+      read: async (path) => {
+        readable(path);
+        return vault.read(path);
+      },
+      create: async (path, content) => {
+        writable(path);
+        return vault.create(path, content);
+      },
+      modify: async (path, content) => {
+        writable(path);
+        return vault.modify(path, content);
+      },
+      readBinary: async (path) => {
+        readable(path);
+        return vault.readBinary(path);
+      },
+      writeBinary: async (path, data) => {
+        writable(path);
+        return vault.writeBinary(path, data);
+      },
+      createFolder: async (path) => {
+        canWrite();
+        if (!leadsToFolder(path)) {
+          readable(`${path}/`);
+        }
+        return vault.createFolder(path);
+      },
+      rename: async (path, newPath) => {
+        writable(path);
+        writable(newPath);
+        return vault.rename(path, newPath);
+      },
+      trash: async (path, system) => {
+        writable(path);
+        return vault.trash(path, system);
+      },
+      delete: async (path) => {
+        writable(path);
+        return vault.delete(path);
+      },
+      processFrontMatter: async (path, fn) => {
+        writable(path);
+        return vault.processFrontMatter(path, fn);
+      },
+    };
+
+    return new Proxy(vault, {
+      get: (target, property, receiver) => {
+        if (property in scoped) {
+          return scoped[property as keyof VaultAccess];
+        }
+        const value = Reflect.get(target, property, receiver);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+  }
+}
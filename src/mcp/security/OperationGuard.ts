@@ -4,29 +4,60 @@
  * Shows user prompts for file writes and other destructive operations.
  */
 
-import { Notice, Modal, App, Setting } from 'obsidian';
-import { MCPOperation, PendingApproval } from '../types';
+import { ApprovalDecision, ApprovalPrompt, MCPOperation, PendingApproval } from '../types';
 import { AuditLogger } from './AuditLogger';
+import { describeApprovalRule, findApprovalRule } from './ApprovalRules';
 import type { ObsidianCCSettings } from '../../settings/SettingsSchema';
 
 /**
- * Tools that require approval when requireApproval is enabled
+ * Tools that require approval when requireApproval is enabled, unless
+ * an approval rule decides otherwise
  */
 const WRITE_TOOLS = [
   'write_note',
+  'edit_note',
+  'update_frontmatter',
+  'retag',
+  'create_from_template',
+  'batch',
+  'undo_last_change',
+  'append_to_daily_note',
+  'append_to_weekly_note',
+  'append_to_monthly_note',
+  'move_note',
+  'rename_note',
   'add_task',
   'complete_task',
+  'write_attachment',
+  'create_canvas',
+  'update_canvas',
 ];
 
+/**
+ * Tools that always require approval, even with requireApproval off
+ * (as do operations flagged destructive, e.g. a batch that deletes)
+ */
+const DESTRUCTIVE_TOOLS = [
+  'delete_note',
+  'delete_folder',
+];
+
+/**
+ * Whether a tool changes the vault
+ */
+export function isWriteTool(tool: string): boolean {
+  return WRITE_TOOLS.includes(tool) || DESTRUCTIVE_TOOLS.includes(tool);
+}
+
 export class OperationGuard {
   private settings: ObsidianCCSettings;
-  private app: App;
+  private prompt: ApprovalPrompt;
   private auditLogger: AuditLogger;
   private pendingApprovals: Map<string, PendingApproval> = new Map();
   private approvalTimeout = 30000; // 30 seconds
 
-  constructor(app: App, settings: ObsidianCCSettings, auditLogger: AuditLogger) {
-    this.app = app;
+  constructor(settings: ObsidianCCSettings, auditLogger: AuditLogger, prompt: ApprovalPrompt) {
+    this.prompt = prompt;
     this.settings = settings;
     this.auditLogger = auditLogger;
   }
@@ -35,6 +66,9 @@ export class OperationGuard {
    * Check if operation requires approval
    */
   requiresApproval(operation: MCPOperation): boolean {
+    if (operation.destructive || DESTRUCTIVE_TOOLS.includes(operation.tool)) {
+      return true;
+    }
     if (!this.settings.requireApproval) {
       return false;
     }
@@ -44,7 +78,7 @@ export class OperationGuard {
   /**
    * Request approval for an operation
    */
-  async requestApproval(operation: MCPOperation): Promise<boolean> {
+  async requestApproval(operation: MCPOperation): Promise<ApprovalDecision> {
     return new Promise((resolve) => {
       const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -57,7 +91,7 @@ export class OperationGuard {
         if (pending) {
           this.pendingApprovals.delete(id);
           this.auditLogger.logApprovalResponse(operation.tool, operation.path, false, operation.clientId);
-          resolve(false);
+          resolve({ approved: false });
         }
       }, this.approvalTimeout);
 
@@ -65,46 +99,65 @@ export class OperationGuard {
       this.pendingApprovals.set(id, {
         id,
         operation,
-        resolve: (approved: boolean) => {
+        resolve: (approved: boolean, editedContent?: string) => {
           clearTimeout(timeout);
           this.pendingApprovals.delete(id);
           this.auditLogger.logApprovalResponse(operation.tool, operation.path, approved, operation.clientId);
-          resolve(approved);
+          // Edits only count for previews the user was allowed to edit
+          const edited = approved && operation.preview?.editable && editedContent !== operation.preview.after;
+          resolve({ approved, editedContent: edited ? editedContent : undefined });
         },
         timeout,
       });
 
-      // Show approval modal
-      const modal = new ApprovalModal(
-        this.app,
-        operation,
-        (approved) => {
-          const pending = this.pendingApprovals.get(id);
-          if (pending) {
-            pending.resolve(approved);
-          }
+      // Ask the user (modal in Obsidian, policy when headless)
+      this.prompt(operation, (approved, editedContent) => {
+        const pending = this.pendingApprovals.get(id);
+        if (pending) {
+          pending.resolve(approved, editedContent);
         }
-      );
-      modal.open();
+      });
     });
   }
 
   /**
-   * Execute operation with optional approval
+   * Execute operation with optional approval. The executor receives the
+   * user's version of the proposed content if they edited the preview.
    */
   async executeWithApproval<T>(
     operation: MCPOperation,
-    executor: () => Promise<T>
+    executor: (editedContent?: string) => Promise<T>
   ): Promise<T> {
-    if (this.requiresApproval(operation)) {
-      const approved = await this.requestApproval(operation);
-      if (!approved) {
+    const checked = {
+      ...operation,
+      destructive: operation.destructive || DESTRUCTIVE_TOOLS.includes(operation.tool),
+    };
+
+    // Rules only apply to tools that can change the vault
+    const rule = this.isWriteOperation(checked)
+      ? findApprovalRule(this.settings.approvalRules || [], checked)
+      : null;
+
+    if (rule?.effect === 'deny') {
+      this.auditLogger.logApprovalResponse(checked.tool, checked.path, false, checked.clientId);
+      throw new Error(`Operation denied by approval rule: ${describeApprovalRule(rule)}`);
+    }
+
+    const ask = !!checked.forceApproval || (rule ? rule.effect === 'ask' : this.requiresApproval(checked));
+    if (ask) {
+      const decision = await this.requestApproval(checked);
+      if (!decision.approved) {
         throw new Error('Operation denied by user');
       }
+      return executor(decision.editedContent);
     }
     return executor();
   }
 
+  private isWriteOperation(operation: MCPOperation): boolean {
+    return !!operation.destructive || WRITE_TOOLS.includes(operation.tool) || DESTRUCTIVE_TOOLS.includes(operation.tool);
+  }
+
   /**
    * Update settings reference
    */
@@ -123,94 +176,3 @@ export class OperationGuard {
     this.pendingApprovals.clear();
   }
 }
-
-/**
- * Modal for approval requests
- */
-class ApprovalModal extends Modal {
-  private operation: MCPOperation;
-  private callback: (approved: boolean) => void;
-  private responded = false;
-
-  constructor(app: App, operation: MCPOperation, callback: (approved: boolean) => void) {
-    super(app);
-    this.operation = operation;
-    this.callback = callback;
-  }
-
-  /**
-   * Respond to approval request (prevents double callbacks)
-   */
-  private respond(approved: boolean): void {
-    if (this.responded) return;
-    this.responded = true;
-    this.callback(approved);
-    this.close();
-  }
-
-  onOpen(): void {
-    const { contentEl } = this;
-
-    contentEl.createEl('h2', { text: 'MCP Operation Approval' });
-
-    const toolName = this.operation.tool.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
-
-    contentEl.createEl('p', {
-      text: `Claude Code is requesting permission to perform the following operation:`,
-    });
-
-    const detailsEl = contentEl.createEl('div', { cls: 'mcp-approval-details' });
-
-    detailsEl.createEl('div', {
-      cls: 'mcp-approval-row',
-      text: `Tool: ${toolName}`,
-    });
-
-    if (this.operation.path) {
-      detailsEl.createEl('div', {
-        cls: 'mcp-approval-row',
-        text: `Path: ${this.operation.path}`,
-      });
-    }
-
-    if (this.operation.action) {
-      detailsEl.createEl('div', {
-        cls: 'mcp-approval-row',
-        text: `Action: ${this.operation.action}`,
-      });
-    }
-
-    contentEl.createEl('p', {
-      text: 'Do you want to allow this operation?',
-      cls: 'mcp-approval-question',
-    });
-
-    // Buttons
-    const buttonContainer = contentEl.createEl('div', { cls: 'mcp-approval-buttons' });
-
-    const denyButton = buttonContainer.createEl('button', {
-      text: 'Deny',
-      cls: 'mod-warning',
-    });
-    denyButton.addEventListener('click', () => this.respond(false));
-
-    const allowButton = buttonContainer.createEl('button', {
-      text: 'Allow',
-      cls: 'mod-cta',
-    });
-    allowButton.addEventListener('click', () => this.respond(true));
-
-    // Focus allow button for quick approval
-    allowButton.focus();
-  }
-
-  onClose(): void {
-    const { contentEl } = this;
-    contentEl.empty();
-    // If modal closed without responding, deny by default
-    if (!this.responded) {
-      this.responded = true;
-      this.callback(false);
-    }
-  }
-}
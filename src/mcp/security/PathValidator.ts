@@ -5,14 +5,38 @@
  * and prevents directory traversal attacks.
  */
 
-import { normalizePath } from 'obsidian';
 import * as path from 'path';
 import { PathValidationResult } from '../types';
+import { normalizeVaultPath } from '../../utils/vaultPath';
+import type { FileTypePolicy, ObsidianCCSettings } from '../../settings/SettingsSchema';
 
 /**
- * Allowed file extensions for MCP operations
+ * Binary attachment types, handled by read_attachment and
+ * write_attachment; other extensions are read as text
  */
-const ALLOWED_EXTENSIONS = ['.md', '.txt', '.json', '.yaml', '.yml', '.csv'];
+const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+/**
+ * MIME type of a binary attachment, or null for text files
+ */
+export function getAttachmentMimeType(filePath: string): string | null {
+  const ext = path.extname(filePath).toLowerCase().substring(1);
+  return ATTACHMENT_MIME_TYPES[ext] ?? null;
+}
 
 /**
  * Dangerous path patterns to block
@@ -28,9 +52,24 @@ const DANGEROUS_PATTERNS = [
 
 export class PathValidator {
   private vaultPath: string;
+  private settings: ObsidianCCSettings;
 
-  constructor(vaultPath: string) {
+  constructor(vaultPath: string, settings: ObsidianCCSettings) {
     this.vaultPath = vaultPath;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: ObsidianCCSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Access the file type policy grants a path ('deny' for unlisted extensions)
+   */
+  getAccess(requestedPath: string): FileTypePolicy['access'] {
+    const ext = path.extname(requestedPath).toLowerCase().replace(/^\./, '');
+    const policy = this.settings.fileTypePolicies.find((p) => p.extension.toLowerCase().replace(/^\./, '') === ext);
+    return policy?.access ?? 'deny';
   }
 
   /**
@@ -60,7 +99,7 @@ export class PathValidator {
     }
 
     // Normalize the path
-    const normalized = normalizePath(requestedPath);
+    const normalized = normalizeVaultPath(requestedPath);
 
     // Resolve to absolute and check it's within vault
     // SECURITY: Ensure vaultPath ends with separator to prevent /vault-evil matching /vault
@@ -84,9 +123,13 @@ export class PathValidator {
   }
 
   /**
-   * Validate path with extension check
+   * Validate a text file path against the file type policy
    */
-  validateWithExtension(requestedPath: string, requireExtension = true): PathValidationResult {
+  validateWithExtension(
+    requestedPath: string,
+    requireExtension = true,
+    access: 'read' | 'write' = 'read'
+  ): PathValidationResult {
     const result = this.validate(requestedPath);
     if (!result.valid) {
       return result;
@@ -97,15 +140,42 @@ export class PathValidator {
     // If no extension and we require one, add .md
     if (!ext && requireExtension) {
       const withMd = requestedPath + '.md';
-      return { valid: true, sanitizedPath: normalizePath(withMd) };
+      return this.checkAccess(normalizeVaultPath(withMd), access);
     }
 
-    // Check if extension is allowed
-    if (ext && !ALLOWED_EXTENSIONS.includes(ext)) {
-      return { valid: false, error: `Extension "${ext}" is not allowed` };
+    if (ext && getAttachmentMimeType(requestedPath)) {
+      return { valid: false, error: `"${ext}" files are attachments; use read_attachment or write_attachment` };
     }
 
-    return result;
+    return ext ? this.checkAccess(result.sanitizedPath!, access) : result;
+  }
+
+  /**
+   * Validate a binary attachment path against the file type policy
+   */
+  validateAttachment(requestedPath: string, access: 'read' | 'write' = 'read'): PathValidationResult {
+    const result = this.validate(requestedPath);
+    if (!result.valid) {
+      return result;
+    }
+
+    if (!getAttachmentMimeType(requestedPath)) {
+      return { valid: false, error: `Not an attachment type: ${requestedPath}` };
+    }
+
+    return this.checkAccess(result.sanitizedPath!, access);
+  }
+
+  private checkAccess(sanitizedPath: string, access: 'read' | 'write'): PathValidationResult {
+    const ext = path.extname(sanitizedPath).toLowerCase();
+    const allowed = this.getAccess(sanitizedPath);
+    if (allowed === 'deny') {
+      return { valid: false, error: `Extension "${ext}" is not allowed` };
+    }
+    if (access === 'write' && allowed === 'read') {
+      return { valid: false, error: `Extension "${ext}" is read-only` };
+    }
+    return { valid: true, sanitizedPath };
   }
 
   /**
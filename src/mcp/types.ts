@@ -2,8 +2,6 @@
  * Shared types for MCP server implementation
  */
 
-import { TFile } from 'obsidian';
-
 /**
  * Result of path validation
  */
@@ -19,12 +17,46 @@ export interface PathValidationResult {
 export interface MCPOperation {
   tool: string;
   path?: string;
+  /** Target path for moves and renames */
+  destination?: string;
   action?: string;
+  /** Deletes data; always confirmed and shown with warning styling */
+  destructive?: boolean;
+  /** Every change a multi-file operation makes, one line each */
+  changes?: string[];
+  /** Every vault path a multi-file operation touches */
+  paths?: string[];
+  /** Current and proposed content, shown as a diff */
+  preview?: OperationPreview;
+  /** Why this operation must be confirmed regardless of settings and allow rules */
+  forceApproval?: string;
   timestamp: number;
   clientId?: string;
+  sessionId?: string;
   approved?: boolean;
 }
 
+/**
+ * Content change shown in the approval prompt
+ */
+export interface OperationPreview {
+  /** Current content ('' for a new note) */
+  before: string;
+  /** Proposed content */
+  after: string;
+  /** Let the user edit the proposed content before approving */
+  editable?: boolean;
+}
+
+/**
+ * Outcome of an approval prompt
+ */
+export interface ApprovalDecision {
+  approved: boolean;
+  /** Proposed content as edited by the user, if they changed it */
+  editedContent?: string;
+}
+
 /**
  * Audit log entry
  */
@@ -37,6 +69,10 @@ export interface AuditEntry {
   success: boolean;
   error?: string;
   details?: Record<string, unknown>;
+  /** Hash of the previous entry in the audit files (hash chain) */
+  prevHash?: string;
+  /** Hash of this entry, including prevHash */
+  hash?: string;
 }
 
 /**
@@ -121,6 +157,71 @@ export interface NoteMetadata {
   tags?: string[];
 }
 
+/**
+ * File stats exposed by a vault backend
+ */
+export interface VaultFileStat {
+  size: number;
+  ctime: number;
+  mtime: number;
+}
+
+/**
+ * A file in the vault, independent of the backend
+ */
+export interface VaultFile {
+  /** Vault-relative path with forward slashes */
+  path: string;
+  name: string;
+  basename: string;
+  extension: string;
+  stat: VaultFileStat;
+}
+
+/**
+ * Parsed note metadata (subset of Obsidian's CachedMetadata)
+ */
+export interface NoteCache {
+  frontmatter?: Record<string, unknown>;
+  /** Inline tags including the leading # */
+  tags: Array<{ tag: string; line: number }>;
+  links: NoteLinkCache[];
+  embeds: NoteLinkCache[];
+  headings: Array<{ heading: string; level: number; line: number }>;
+}
+
+/**
+ * A wikilink or markdown link found in a note
+ */
+export interface NoteLinkCache {
+  /** Link target without alias, e.g. "Folder/Note#Heading" */
+  link: string;
+  /** Exact source text, e.g. "[[Folder/Note#Heading|alias]]" */
+  original: string;
+  displayText?: string;
+  /** Zero-based line number */
+  line: number;
+}
+
+/**
+ * File change reported by a vault backend
+ */
+export interface VaultChangeEvent {
+  type: 'create' | 'modify' | 'delete' | 'rename';
+  path: string;
+  /** Previous path for renames */
+  oldPath?: string;
+}
+
+/**
+ * Shows an approval request to the user and reports the decision.
+ * `respond` must be called exactly once.
+ */
+export type ApprovalPrompt = (
+  operation: MCPOperation,
+  respond: (approved: boolean, editedContent?: string) => void
+) => void;
+
 /**
  * Transport options
  */
@@ -138,6 +239,8 @@ export interface ToolResponse {
     text?: string;
     data?: string;
     mimeType?: string;
+    /** Embedded resource, for attachments that aren't images */
+    resource?: { uri: string; mimeType?: string; text?: string; blob?: string };
   }>;
   isError?: boolean;
 }
@@ -148,6 +251,161 @@ export interface ToolResponse {
 export interface PendingApproval {
   id: string;
   operation: MCPOperation;
-  resolve: (approved: boolean) => void;
+  resolve: (approved: boolean, editedContent?: string) => void;
   timeout: NodeJS.Timeout;
 }
+
+/**
+ * JSON-RPC 2.0 request
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: string | number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC 2.0 notification (no response expected)
+ */
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC 2.0 success response
+ */
+export interface JsonRpcSuccess {
+  jsonrpc: '2.0';
+  id: string | number;
+  result: unknown;
+}
+
+/**
+ * JSON-RPC 2.0 error response
+ */
+export interface JsonRpcErrorResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  error: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+export type JsonRpcResponse = JsonRpcSuccess | JsonRpcErrorResponse;
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * MCP client session negotiated via initialize
+ */
+export interface MCPSession {
+  id: string;
+  protocolVersion: string;
+  clientInfo?: {
+    name: string;
+    version: string;
+  };
+  clientCapabilities: Record<string, unknown>;
+  /** Named client that opened the session */
+  clientId?: string;
+  /** Notes read in this session that the injection scanner flagged */
+  flaggedReads?: string[];
+  initialized: boolean;
+  createdAt: number;
+  lastActivity: number;
+}
+
+/**
+ * Argument accepted by a vault prompt
+ */
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * Prompt template defined by a vault note
+ */
+export interface PromptDefinition {
+  name: string;
+  description?: string;
+  arguments: PromptArgument[];
+  /** Vault path of the defining note */
+  path: string;
+}
+
+/**
+ * A targeted edit to part of a note. Exactly one target
+ * (heading, block, lines or match) is set.
+ */
+export interface NoteEdit {
+  operation: 'replace' | 'delete' | 'insert_before' | 'insert_after' | 'append' | 'prepend';
+  /** Heading path, e.g. "## Tasks > ### Today" (levels optional) */
+  heading?: string;
+  /** Block reference id, with or without the leading ^ */
+  block?: string;
+  /** One-based inclusive line range */
+  lines?: { start: number; end?: number };
+  /** Exact text that must occur exactly once */
+  match?: string;
+  /** New content for replace and insert operations */
+  content?: string;
+}
+
+/**
+ * Changes to apply to a note's frontmatter, in the order
+ * unset, set, merge, append, remove
+ */
+export interface FrontmatterPatch {
+  /** Replace values */
+  set?: Record<string, unknown>;
+  /** Deep-merge objects into existing values */
+  merge?: Record<string, unknown>;
+  /** Delete keys */
+  unset?: string[];
+  /** Add items to list properties (deduplicated) */
+  append?: Record<string, unknown>;
+  /** Remove items from list properties */
+  remove?: Record<string, unknown>;
+}
+
+/**
+ * One step of a batch tool call
+ */
+export type BatchOperation =
+  | { type: 'write'; path: string; content: string; mode: 'create' | 'replace' | 'append' }
+  | { type: 'move'; path: string; destination: string }
+  | { type: 'delete'; path: string; force: boolean }
+  | { type: 'frontmatter'; path: string; patch: FrontmatterPatch };
+
+/**
+ * A create_canvas or update_canvas call, worked out before approval
+ */
+export interface CanvasChange {
+  path: string;
+  /** Current content (null when creating) */
+  before: string | null;
+  after: string;
+  /** IDs of the nodes and edges added */
+  added: { nodes: string[]; edges: string[] };
+}
+
+/**
+ * Comparison used by query_by_property
+ */
+export type PropertyOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'exists'
+  | 'not_exists'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte';
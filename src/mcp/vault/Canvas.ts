@@ -0,0 +1,455 @@
+/**
+ * JSON Canvas (.canvas) parsing, validation and layout
+ *
+ * Follows the JSON Canvas 1.0 spec (https://jsoncanvas.org). Nodes are
+ * text, file, link or group; group membership is geometric, so a node
+ * belongs to the smallest group whose box contains it. Fields this
+ * module doesn't know are kept as they are when a canvas is rewritten.
+ */
+
+export type CanvasNodeType = 'text' | 'file' | 'link' | 'group';
+export type CanvasSide = 'top' | 'right' | 'bottom' | 'left';
+export type CanvasEnd = 'none' | 'arrow';
+
+export interface CanvasNode {
+  id: string;
+  type: CanvasNodeType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Preset "1"-"6" or a hex color */
+  color?: string;
+  /** Markdown, for text nodes */
+  text?: string;
+  /** Vault path, for file nodes */
+  file?: string;
+  /** Heading or block in the file, starting with # */
+  subpath?: string;
+  /** For link nodes */
+  url?: string;
+  /** Group title */
+  label?: string;
+  /** Group background image */
+  background?: string;
+  backgroundStyle?: 'cover' | 'ratio' | 'repeat';
+  [key: string]: unknown;
+}
+
+export interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  fromSide?: CanvasSide;
+  fromEnd?: CanvasEnd;
+  toNode: string;
+  toSide?: CanvasSide;
+  toEnd?: CanvasEnd;
+  color?: string;
+  label?: string;
+  [key: string]: unknown;
+}
+
+export interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+  [key: string]: unknown;
+}
+
+/**
+ * A node to add; position and size are filled in when missing
+ */
+export interface CanvasNodeInput extends Partial<CanvasNode> {
+  type: CanvasNodeType;
+  /** For groups: IDs of the nodes to enclose */
+  children?: string[];
+}
+
+export type CanvasEdgeInput = Partial<CanvasEdge> & Pick<CanvasEdge, 'fromNode' | 'toNode'>;
+
+/**
+ * A canvas as returned to agents: content nodes and groups apart, each
+ * with the group it sits in
+ */
+export interface CanvasSummary {
+  nodes: Array<CanvasNode & { group?: string }>;
+  groups: Array<CanvasNode & { group?: string; nodes: string[] }>;
+  edges: CanvasEdge[];
+}
+
+const NODE_TYPES: CanvasNodeType[] = ['text', 'file', 'link', 'group'];
+const SIDES: CanvasSide[] = ['top', 'right', 'bottom', 'left'];
+const ENDS: CanvasEnd[] = ['none', 'arrow'];
+const BACKGROUND_STYLES = ['cover', 'ratio', 'repeat'];
+const COLOR_PATTERN = /^(?:[1-6]|#[0-9a-fA-F]{6})$/;
+
+const DEFAULT_SIZES: Record<CanvasNodeType, { width: number; height: number }> = {
+  text: { width: 300, height: 150 },
+  file: { width: 400, height: 400 },
+  link: { width: 400, height: 300 },
+  group: { width: 500, height: 400 },
+};
+
+/** Space between laid-out nodes, and around the nodes inside a group */
+const GAP = 60;
+const GROUP_PADDING = 40;
+/** Nodes per row before wrapping */
+const COLUMNS = 4;
+
+/**
+ * Parse .canvas content; an empty file is an empty canvas
+ */
+export function parseCanvas(content: string): CanvasData {
+  if (!content.trim()) {
+    return { nodes: [], edges: [] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Canvas is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(data)) {
+    throw new Error('Canvas must be a JSON object');
+  }
+  return { ...data, nodes: (data.nodes ?? []) as CanvasNode[], edges: (data.edges ?? []) as CanvasEdge[] };
+}
+
+/**
+ * Serialize a canvas the way Obsidian does (tab-indented)
+ */
+export function stringifyCanvas(canvas: CanvasData): string {
+  return JSON.stringify(canvas, null, '\t');
+}
+
+/**
+ * Problems that make a canvas invalid under the JSON Canvas spec
+ */
+export function validateCanvas(canvas: CanvasData): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(canvas.nodes)) {
+    return ['"nodes" must be an array'];
+  }
+  if (!Array.isArray(canvas.edges)) {
+    return ['"edges" must be an array'];
+  }
+
+  const nodeIds = new Set<string>();
+  canvas.nodes.forEach((node: unknown, index) => {
+    const name = describeItem('Node', node, index);
+    if (!isObject(node)) {
+      errors.push(`${name} must be an object`);
+      return;
+    }
+    if (typeof node.id !== 'string' || !node.id) {
+      errors.push(`${name} needs a string id`);
+    } else if (nodeIds.has(node.id)) {
+      errors.push(`${name}: duplicate id`);
+    } else {
+      nodeIds.add(node.id);
+    }
+
+    if (!NODE_TYPES.includes(node.type as CanvasNodeType)) {
+      errors.push(`${name}: type must be one of ${NODE_TYPES.join(', ')}`);
+    }
+    for (const field of ['x', 'y', 'width', 'height']) {
+      if (typeof node[field] !== 'number' || !Number.isFinite(node[field])) {
+        errors.push(`${name}: ${field} must be a number`);
+      }
+    }
+    if ((node.width as number) <= 0 || (node.height as number) <= 0) {
+      errors.push(`${name}: width and height must be positive`);
+    }
+    checkColor(errors, name, node.color);
+
+    switch (node.type) {
+      case 'text':
+        if (typeof node.text !== 'string') {
+          errors.push(`${name}: text nodes need text`);
+        }
+        break;
+      case 'file':
+        if (typeof node.file !== 'string' || !node.file) {
+          errors.push(`${name}: file nodes need a file path`);
+        }
+        if (node.subpath !== undefined && (typeof node.subpath !== 'string' || !node.subpath.startsWith('#'))) {
+          errors.push(`${name}: subpath must start with #`);
+        }
+        break;
+      case 'link':
+        if (typeof node.url !== 'string' || !node.url) {
+          errors.push(`${name}: link nodes need a url`);
+        }
+        break;
+      case 'group':
+        checkOptionalString(errors, name, node, 'label');
+        checkOptionalString(errors, name, node, 'background');
+        if (node.backgroundStyle !== undefined && !BACKGROUND_STYLES.includes(node.backgroundStyle as string)) {
+          errors.push(`${name}: backgroundStyle must be one of ${BACKGROUND_STYLES.join(', ')}`);
+        }
+        break;
+    }
+  });
+
+  const edgeIds = new Set<string>();
+  canvas.edges.forEach((edge: unknown, index) => {
+    const name = describeItem('Edge', edge, index);
+    if (!isObject(edge)) {
+      errors.push(`${name} must be an object`);
+      return;
+    }
+    if (typeof edge.id !== 'string' || !edge.id) {
+      errors.push(`${name} needs a string id`);
+    } else if (edgeIds.has(edge.id)) {
+      errors.push(`${name}: duplicate id`);
+    } else {
+      edgeIds.add(edge.id);
+    }
+
+    for (const end of ['from', 'to']) {
+      const nodeId = edge[`${end}Node`];
+      if (typeof nodeId !== 'string' || !nodeIds.has(nodeId)) {
+        errors.push(`${name}: ${end}Node must be the id of a node on the canvas`);
+      }
+      const side = edge[`${end}Side`];
+      if (side !== undefined && !SIDES.includes(side as CanvasSide)) {
+        errors.push(`${name}: ${end}Side must be one of ${SIDES.join(', ')}`);
+      }
+      const arrow = edge[`${end}End`];
+      if (arrow !== undefined && !ENDS.includes(arrow as CanvasEnd)) {
+        errors.push(`${name}: ${end}End must be one of ${ENDS.join(', ')}`);
+      }
+    }
+    checkColor(errors, name, edge.color);
+    checkOptionalString(errors, name, edge, 'label');
+  });
+
+  return errors;
+}
+
+/**
+ * Split a canvas into content nodes, groups and edges, with group membership
+ */
+export function describeCanvas(canvas: CanvasData): CanvasSummary {
+  const groups = canvas.nodes.filter((node) => node.type === 'group');
+  const parentOf = (node: CanvasNode): string | undefined => {
+    let parent: CanvasNode | undefined;
+    for (const group of groups) {
+      if (group.id !== node.id && contains(group, node) && (!parent || area(group) < area(parent))) {
+        parent = group;
+      }
+    }
+    return parent?.id;
+  };
+
+  const withGroup = canvas.nodes.map((node) => {
+    const group = parentOf(node);
+    return group ? { ...node, group } : { ...node };
+  });
+
+  return {
+    nodes: withGroup.filter((node) => node.type !== 'group'),
+    groups: withGroup
+      .filter((node) => node.type === 'group')
+      .map((group) => ({ ...group, nodes: withGroup.filter((node) => node.group === group.id).map((node) => node.id) })),
+    edges: canvas.edges,
+  };
+}
+
+/**
+ * Add nodes to a canvas. Nodes without a position are laid out in rows
+ * below the existing content. A group without a position that lists
+ * children gets them laid out inside it when they are new and
+ * unpositioned too, and is otherwise sized to enclose them.
+ */
+export function addCanvasNodes(canvas: CanvasData, inputs: CanvasNodeInput[], newId: () => string): CanvasNode[] {
+  const taken = new Set(canvas.nodes.map((node) => node.id));
+  const added: CanvasNode[] = [];
+  const unplaced = new Set<CanvasNode>();
+  const children = new Map<CanvasNode, string[]>();
+
+  inputs.forEach((input, index) => {
+    if (!isObject(input)) {
+      throw new Error(`Node ${index + 1} must be an object`);
+    }
+    const { children: childIds, ...fields } = input;
+    const size = DEFAULT_SIZES[input.type] ?? DEFAULT_SIZES.text;
+    const node: CanvasNode = {
+      ...fields,
+      id: fields.id ?? newId(),
+      type: input.type,
+      x: Math.round(fields.x ?? 0),
+      y: Math.round(fields.y ?? 0),
+      width: Math.round(fields.width ?? size.width),
+      height: Math.round(fields.height ?? size.height),
+    };
+    if (taken.has(node.id)) {
+      throw new Error(`Node ${index + 1}: id "${node.id}" is already used`);
+    }
+    taken.add(node.id);
+
+    if (fields.x === undefined || fields.y === undefined) {
+      unplaced.add(node);
+    }
+    if (input.type === 'group' && Array.isArray(childIds) && childIds.length > 0) {
+      children.set(node, childIds.map(String));
+    }
+    added.push(node);
+  });
+
+  const all = [...canvas.nodes, ...added];
+  const byId = new Map(all.map((node) => [node.id, node]));
+  for (const [group, ids] of children) {
+    const missing = ids.filter((id) => !byId.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Group ${group.id}: unknown children ${missing.join(', ')}`);
+    }
+  }
+
+  // Unplaced groups whose children are all new and unplaced are laid out as one block
+  const packed = new Map<CanvasNode, CanvasNode[]>();
+  const inPacked = new Set<CanvasNode>();
+  for (const [group, ids] of children) {
+    const members = ids.map((id) => byId.get(id)!);
+    if (unplaced.has(group) && members.every((member) => unplaced.has(member) && !inPacked.has(member))) {
+      packed.set(group, members);
+      members.forEach((member) => inPacked.add(member));
+    }
+  }
+  for (const [group, members] of packed) {
+    const size = layoutRows(members, GROUP_PADDING, GROUP_PADDING);
+    group.width = size.width + 2 * GROUP_PADDING;
+    group.height = size.height + 2 * GROUP_PADDING;
+  }
+
+  const existing = canvas.nodes.length > 0 ? bounds(canvas.nodes) : null;
+  const blocks = added.filter((node) => unplaced.has(node) && !inPacked.has(node) && !(children.has(node) && !packed.has(node)));
+  layoutRows(blocks, existing ? existing.x : 0, existing ? existing.y + existing.height + GAP : 0);
+  for (const [group, members] of packed) {
+    members.forEach((member) => {
+      member.x += group.x;
+      member.y += group.y;
+    });
+  }
+
+  // Remaining groups wrap their children wherever those ended up
+  for (const [group, ids] of children) {
+    if (packed.has(group) || !unplaced.has(group)) continue;
+    const box = bounds(ids.map((id) => byId.get(id)!));
+    group.x = box.x - GROUP_PADDING;
+    group.y = box.y - GROUP_PADDING;
+    group.width = box.width + 2 * GROUP_PADDING;
+    group.height = box.height + 2 * GROUP_PADDING;
+  }
+
+  // Groups go first so Obsidian draws them behind their nodes
+  canvas.nodes = [
+    ...added.filter((node) => node.type === 'group'),
+    ...canvas.nodes,
+    ...added.filter((node) => node.type !== 'group'),
+  ];
+  return added;
+}
+
+/**
+ * Add edges to a canvas
+ */
+export function addCanvasEdges(canvas: CanvasData, inputs: CanvasEdgeInput[], newId: () => string): CanvasEdge[] {
+  const taken = new Set(canvas.edges.map((edge) => edge.id));
+  const added = inputs.map((input, index) => {
+    if (!isObject(input)) {
+      throw new Error(`Edge ${index + 1} must be an object`);
+    }
+    const edge: CanvasEdge = { ...input, id: input.id ?? newId() };
+    if (taken.has(edge.id)) {
+      throw new Error(`Edge ${index + 1}: id "${edge.id}" is already used`);
+    }
+    taken.add(edge.id);
+    return edge;
+  });
+  canvas.edges = [...canvas.edges, ...added];
+  return added;
+}
+
+/**
+ * Remove nodes (with the edges attached to them) and edges by ID
+ */
+export function removeCanvasItems(canvas: CanvasData, nodeIds: string[], edgeIds: string[]): void {
+  const unknownNodes = nodeIds.filter((id) => !canvas.nodes.some((node) => node.id === id));
+  const unknownEdges = edgeIds.filter((id) => !canvas.edges.some((edge) => edge.id === id));
+  if (unknownNodes.length > 0 || unknownEdges.length > 0) {
+    throw new Error(`Not on the canvas: ${[...unknownNodes, ...unknownEdges].join(', ')}`);
+  }
+
+  canvas.nodes = canvas.nodes.filter((node) => !nodeIds.includes(node.id));
+  canvas.edges = canvas.edges.filter(
+    (edge) => !edgeIds.includes(edge.id) && !nodeIds.includes(edge.fromNode) && !nodeIds.includes(edge.toNode)
+  );
+}
+
+/**
+ * Place nodes left to right from a point, wrapping every few nodes;
+ * returns the size of the area used
+ */
+function layoutRows(nodes: CanvasNode[], originX: number, originY: number): { width: number; height: number } {
+  let x = originX;
+  let y = originY;
+  let rowHeight = 0;
+  let width = 0;
+
+  nodes.forEach((node, index) => {
+    if (index > 0 && index % COLUMNS === 0) {
+      x = originX;
+      y += rowHeight + GAP;
+      rowHeight = 0;
+    }
+    node.x = x;
+    node.y = y;
+    x += node.width + GAP;
+    rowHeight = Math.max(rowHeight, node.height);
+    width = Math.max(width, x - GAP - originX);
+  });
+
+  return { width, height: nodes.length > 0 ? y + rowHeight - originY : 0 };
+}
+
+function bounds(nodes: CanvasNode[]): { x: number; y: number; width: number; height: number } {
+  const x = Math.min(...nodes.map((node) => node.x));
+  const y = Math.min(...nodes.map((node) => node.y));
+  const right = Math.max(...nodes.map((node) => node.x + node.width));
+  const bottom = Math.max(...nodes.map((node) => node.y + node.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+function contains(outer: CanvasNode, inner: CanvasNode): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+function area(node: CanvasNode): number {
+  return node.width * node.height;
+}
+
+function checkColor(errors: string[], name: string, color: unknown): void {
+  if (color !== undefined && (typeof color !== 'string' || !COLOR_PATTERN.test(color))) {
+    errors.push(`${name}: color must be "1"-"6" or a hex color like #ff0000`);
+  }
+}
+
+function checkOptionalString(errors: string[], name: string, item: Record<string, unknown>, field: string): void {
+  if (item[field] !== undefined && typeof item[field] !== 'string') {
+    errors.push(`${name}: ${field} must be a string`);
+  }
+}
+
+function describeItem(kind: string, item: unknown, index: number): string {
+  return isObject(item) && typeof item.id === 'string' && item.id ? `${kind} "${item.id}"` : `${kind} ${index + 1}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
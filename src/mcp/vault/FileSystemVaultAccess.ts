@@ -0,0 +1,418 @@
+/**
+ * Vault access backed by a plain directory
+ *
+ * Used by the headless server when Obsidian isn't running (Linux
+ * servers, CI). Dot-folders such as .obsidian, .trash and .git are
+ * skipped, matching what Obsidian shows in the file explorer.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { NoteCache, NoteLinkCache, VaultChangeEvent, VaultFile } from '../types';
+import { VaultAccess } from './VaultAccess';
+import { parseNoteCache, splitFrontmatter, stringifyYaml } from './MarkdownParser';
+import { applyLinkEdits, getLinkpath, resolveLinkpath, retargetLink } from './LinkResolver';
+
+export class FileSystemVaultAccess implements VaultAccess {
+  private basePath: string;
+  private metadataCache: Map<string, { mtime: number; cache: NoteCache }> = new Map();
+
+  constructor(basePath: string) {
+    this.basePath = path.resolve(basePath);
+  }
+
+  getName(): string {
+    return path.basename(this.basePath);
+  }
+
+  getBasePath(): string {
+    return this.basePath;
+  }
+
+  getMarkdownFiles(): VaultFile[] {
+    const files: VaultFile[] = [];
+    this.walk('', (relativePath, stat) => {
+      if (relativePath.toLowerCase().endsWith('.md')) {
+        files.push(this.toVaultFile(relativePath, stat));
+      }
+    });
+    return files;
+  }
+
+  getFiles(): VaultFile[] {
+    const files: VaultFile[] = [];
+    this.walk('', (relativePath, stat) => {
+      files.push(this.toVaultFile(relativePath, stat));
+    });
+    return files;
+  }
+
+  getFile(filePath: string): VaultFile | null {
+    const stat = this.statSafe(filePath);
+    if (!stat || !stat.isFile()) {
+      return null;
+    }
+    return this.toVaultFile(filePath, stat);
+  }
+
+  isFolder(folderPath: string): boolean {
+    const stat = this.statSafe(folderPath);
+    return !!stat && stat.isDirectory();
+  }
+
+  async read(filePath: string): Promise<string> {
+    return fs.promises.readFile(this.toAbsolute(filePath), 'utf8');
+  }
+
+  async create(filePath: string, content: string): Promise<void> {
+    const absolute = this.toAbsolute(filePath);
+    await fs.promises.mkdir(path.dirname(absolute), { recursive: true });
+    // 'wx' fails if the file already exists
+    await fs.promises.writeFile(absolute, content, { encoding: 'utf8', flag: 'wx' });
+  }
+
+  async modify(filePath: string, content: string): Promise<void> {
+    if (!this.getFile(filePath)) {
+      throw new Error(`Note not found: ${filePath}`);
+    }
+    await fs.promises.writeFile(this.toAbsolute(filePath), content, 'utf8');
+  }
+
+  async readBinary(filePath: string): Promise<ArrayBuffer> {
+    const buffer = await fs.promises.readFile(this.toAbsolute(filePath));
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  }
+
+  async writeBinary(filePath: string, data: ArrayBuffer): Promise<void> {
+    const absolute = this.toAbsolute(filePath);
+    await fs.promises.mkdir(path.dirname(absolute), { recursive: true });
+    await fs.promises.writeFile(absolute, new Uint8Array(data));
+  }
+
+  async createFolder(folderPath: string): Promise<void> {
+    await fs.promises.mkdir(this.toAbsolute(folderPath), { recursive: true });
+  }
+
+  async rename(filePath: string, newPath: string): Promise<void> {
+    if (!this.getFile(filePath)) {
+      throw new Error(`Note not found: ${filePath}`);
+    }
+    if (this.statSafe(newPath)) {
+      throw new Error(`Destination already exists: ${newPath}`);
+    }
+
+    // Find links to the file, and links inside it, before anything moves
+    const paths = this.getFiles().map((file) => file.path);
+    const backlinks: Map<string, NoteLinkCache[]> = new Map();
+    for (const note of this.getMarkdownFiles()) {
+      if (note.path === filePath) continue;
+      const links = this.getAllLinks(note.path).filter(
+        (link) => resolveLinkpath(link.link, note.path, paths) === filePath
+      );
+      if (links.length > 0) {
+        backlinks.set(note.path, links);
+      }
+    }
+    const outgoing = this.getAllLinks(filePath)
+      .map((link) => ({ link, target: resolveLinkpath(link.link, filePath, paths) }))
+      .filter((entry) => entry.target !== null && entry.target !== filePath);
+
+    await fs.promises.mkdir(path.dirname(this.toAbsolute(newPath)), { recursive: true });
+    await fs.promises.rename(this.toAbsolute(filePath), this.toAbsolute(newPath));
+    this.metadataCache.delete(filePath);
+
+    const newPaths = paths.map((p) => (p === filePath ? newPath : p));
+
+    for (const [notePath, links] of backlinks) {
+      const content = await this.read(notePath);
+      const edits = links.map((link) => ({
+        link,
+        replacement: retargetLink(link, newPath, notePath, newPaths),
+      }));
+      await fs.promises.writeFile(this.toAbsolute(notePath), applyLinkEdits(content, edits), 'utf8');
+    }
+
+    // Links inside the moved note that no longer resolve to the same file
+    const broken = outgoing.filter(
+      ({ link, target }) => resolveLinkpath(link.link, newPath, newPaths) !== target
+    );
+    if (broken.length > 0) {
+      const content = await this.read(newPath);
+      const edits = broken.map(({ link, target }) => ({
+        link,
+        replacement: retargetLink(link, target!, newPath, newPaths),
+      }));
+      await fs.promises.writeFile(this.toAbsolute(newPath), applyLinkEdits(content, edits), 'utf8');
+    }
+  }
+
+  async trash(filePath: string, _system: boolean): Promise<void> {
+    // There is no system trash to reach from a headless server, so both
+    // options use the vault's .trash folder, as Obsidian's "local" option does
+    const absolute = this.toAbsolute(filePath);
+    if (!this.statSafe(filePath)) {
+      throw new Error(`Not found: ${filePath}`);
+    }
+
+    const trashFolder = path.join(this.basePath, '.trash');
+    await fs.promises.mkdir(trashFolder, { recursive: true });
+
+    const name = path.basename(absolute);
+    const extension = path.extname(name);
+    const stem = name.slice(0, name.length - extension.length);
+    let target = path.join(trashFolder, name);
+    for (let i = 1; fs.existsSync(target); i++) {
+      target = path.join(trashFolder, `${stem} ${i}${extension}`);
+    }
+
+    await fs.promises.rename(absolute, target);
+    for (const cached of Array.from(this.metadataCache.keys())) {
+      if (cached === filePath || cached.startsWith(filePath + '/')) {
+        this.metadataCache.delete(cached);
+      }
+    }
+  }
+
+  async delete(filePath: string): Promise<void> {
+    const stat = this.statSafe(filePath);
+    if (!stat) {
+      throw new Error(`Not found: ${filePath}`);
+    }
+
+    if (stat.isDirectory()) {
+      // rmdir refuses non-empty folders
+      await fs.promises.rmdir(this.toAbsolute(filePath));
+    } else {
+      await fs.promises.unlink(this.toAbsolute(filePath));
+      this.metadataCache.delete(filePath);
+    }
+  }
+
+  getResolvedLinks(): Record<string, Record<string, number>> {
+    return this.buildLinkIndex().resolved;
+  }
+
+  getUnresolvedLinks(): Record<string, Record<string, number>> {
+    return this.buildLinkIndex().unresolved;
+  }
+
+  resolveLink(link: string, sourcePath: string): string | null {
+    return resolveLinkpath(link, sourcePath, this.getFiles().map((file) => file.path));
+  }
+
+  async processFrontMatter(
+    filePath: string,
+    fn: (frontmatter: Record<string, unknown>) => void
+  ): Promise<void> {
+    const content = await this.read(filePath);
+    const { frontmatter, yaml, body } = splitFrontmatter(content);
+    if (yaml !== undefined && yaml.trim() !== '' && !frontmatter) {
+      throw new Error(`Frontmatter in ${filePath} could not be parsed`);
+    }
+
+    const data = frontmatter ? { ...frontmatter } : {};
+    fn(data);
+
+    const updated = Object.keys(data).length > 0
+      ? `---\n${stringifyYaml(data)}---\n${body}`
+      : body;
+    await this.modify(filePath, updated);
+  }
+
+  getMetadata(filePath: string): NoteCache | null {
+    const stat = this.statSafe(filePath);
+    if (!stat || !stat.isFile()) {
+      return null;
+    }
+
+    // Re-parse only when the file changed
+    const cached = this.metadataCache.get(filePath);
+    if (cached && cached.mtime === stat.mtimeMs) {
+      return cached.cache;
+    }
+
+    try {
+      const content = fs.readFileSync(this.toAbsolute(filePath), 'utf8');
+      const cache = parseNoteCache(content);
+      this.metadataCache.set(filePath, { mtime: stat.mtimeMs, cache });
+      return cache;
+    } catch {
+      return null;
+    }
+  }
+
+  async readRootFile(name: string): Promise<string | null> {
+    try {
+      return await fs.promises.readFile(path.join(this.basePath, name), 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  async readConfigFile(name: string): Promise<string | null> {
+    try {
+      return await fs.promises.readFile(path.join(this.basePath, '.obsidian', ...name.split('/')), 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  async writeConfigFile(name: string, content: string): Promise<void> {
+    const absolute = path.join(this.basePath, '.obsidian', ...name.split('/'));
+    await fs.promises.mkdir(path.dirname(absolute), { recursive: true });
+    await fs.promises.writeFile(absolute, content, 'utf8');
+  }
+
+  async appendConfigFile(name: string, content: string): Promise<void> {
+    const absolute = path.join(this.basePath, '.obsidian', ...name.split('/'));
+    await fs.promises.mkdir(path.dirname(absolute), { recursive: true });
+    await fs.promises.appendFile(absolute, content, 'utf8');
+  }
+
+  async removeConfigFile(name: string): Promise<void> {
+    await fs.promises.rm(path.join(this.basePath, '.obsidian', ...name.split('/')), { force: true });
+  }
+
+  async listConfigFolder(name: string): Promise<string[]> {
+    try {
+      const entries = await fs.promises.readdir(path.join(this.basePath, '.obsidian', ...name.split('/')), {
+        withFileTypes: true,
+      });
+      return entries.filter((entry) => entry.isFile()).map((entry) => entry.name);
+    } catch {
+      return [];
+    }
+  }
+
+  watch(listener: (event: VaultChangeEvent) => void): () => void {
+    // fs.watch reports bursts of events per write; coalesce per path
+    const pending: Map<string, NodeJS.Timeout> = new Map();
+    const known = new Set(this.getMarkdownFiles().map((file) => file.path));
+
+    const watcher = fs.watch(this.basePath, { recursive: true }, (_eventType, filename) => {
+      if (!filename) return;
+      const relativePath = filename.toString().split(path.sep).join('/');
+      if (relativePath.split('/').some((part) => part.startsWith('.'))) return;
+
+      clearTimeout(pending.get(relativePath));
+      pending.set(
+        relativePath,
+        setTimeout(() => {
+          pending.delete(relativePath);
+          const exists = !!this.getFile(relativePath);
+          if (exists) {
+            listener({ type: known.has(relativePath) ? 'modify' : 'create', path: relativePath });
+            known.add(relativePath);
+          } else if (known.delete(relativePath)) {
+            this.metadataCache.delete(relativePath);
+            listener({ type: 'delete', path: relativePath });
+          }
+        }, 50)
+      );
+    });
+
+    return () => {
+      watcher.close();
+      pending.forEach((timer) => clearTimeout(timer));
+      pending.clear();
+    };
+  }
+
+  /**
+   * Resolve every link in the vault, counting links per target
+   */
+  private buildLinkIndex(): {
+    resolved: Record<string, Record<string, number>>;
+    unresolved: Record<string, Record<string, number>>;
+  } {
+    const paths = this.getFiles().map((file) => file.path);
+    const resolved: Record<string, Record<string, number>> = {};
+    const unresolved: Record<string, Record<string, number>> = {};
+
+    for (const note of this.getMarkdownFiles()) {
+      const found: Record<string, number> = {};
+      const missing: Record<string, number> = {};
+      for (const link of this.getAllLinks(note.path)) {
+        const target = resolveLinkpath(link.link, note.path, paths);
+        if (target) {
+          found[target] = (found[target] || 0) + 1;
+        } else {
+          const linkpath = getLinkpath(link.link);
+          missing[linkpath] = (missing[linkpath] || 0) + 1;
+        }
+      }
+      resolved[note.path] = found;
+      unresolved[note.path] = missing;
+    }
+
+    return { resolved, unresolved };
+  }
+
+  /**
+   * Links and embeds of a note (empty for non-markdown files)
+   */
+  private getAllLinks(filePath: string): NoteLinkCache[] {
+    if (!filePath.toLowerCase().endsWith('.md')) {
+      return [];
+    }
+    const cache = this.getMetadata(filePath);
+    return cache ? [...cache.links, ...cache.embeds] : [];
+  }
+
+  /**
+   * Convert a vault-relative path to an absolute path on disk
+   */
+  private toAbsolute(relativePath: string): string {
+    return path.join(this.basePath, ...relativePath.split('/'));
+  }
+
+  private statSafe(relativePath: string): fs.Stats | null {
+    try {
+      return fs.statSync(this.toAbsolute(relativePath));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Recursively visit files under a vault folder, skipping dot entries
+   */
+  private walk(folder: string, visit: (relativePath: string, stat: fs.Stats) => void): void {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(this.toAbsolute(folder), { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+
+      const relativePath = folder ? `${folder}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        this.walk(relativePath, visit);
+      } else if (entry.isFile()) {
+        const stat = this.statSafe(relativePath);
+        if (stat) {
+          visit(relativePath, stat);
+        }
+      }
+    }
+  }
+
+  private toVaultFile(relativePath: string, stat: fs.Stats): VaultFile {
+    const name = relativePath.substring(relativePath.lastIndexOf('/') + 1);
+    const dot = name.lastIndexOf('.');
+    return {
+      path: relativePath,
+      name,
+      basename: dot > 0 ? name.substring(0, dot) : name,
+      extension: dot > 0 ? name.substring(dot + 1) : '',
+      stat: {
+        size: stat.size,
+        ctime: Math.round(stat.birthtimeMs || stat.ctimeMs),
+        mtime: Math.round(stat.mtimeMs),
+      },
+    };
+  }
+}
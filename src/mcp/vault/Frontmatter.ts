@@ -0,0 +1,151 @@
+/**
+ * Frontmatter patching and property matching
+ *
+ * Patches run inside VaultAccess.processFrontMatter, so values keep
+ * their YAML types: numbers stay numbers, lists stay lists.
+ */
+
+import { FrontmatterPatch, PropertyOperator } from '../types';
+
+export const PROPERTY_OPERATORS: PropertyOperator[] = [
+  'equals',
+  'not_equals',
+  'contains',
+  'exists',
+  'not_exists',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+];
+
+/**
+ * Apply a patch to frontmatter in place
+ */
+export function applyFrontmatterPatch(frontmatter: Record<string, unknown>, patch: FrontmatterPatch): void {
+  for (const key of patch.unset || []) {
+    delete frontmatter[key];
+  }
+
+  for (const [key, value] of Object.entries(patch.set || {})) {
+    frontmatter[key] = value;
+  }
+
+  for (const [key, value] of Object.entries(patch.merge || {})) {
+    frontmatter[key] = deepMerge(frontmatter[key], value);
+  }
+
+  for (const [key, value] of Object.entries(patch.append || {})) {
+    const list = toList(frontmatter[key]);
+    for (const item of toList(value)) {
+      if (!list.some((existing) => isEqual(existing, item))) {
+        list.push(item);
+      }
+    }
+    frontmatter[key] = list;
+  }
+
+  for (const [key, value] of Object.entries(patch.remove || {})) {
+    if (!(key in frontmatter)) continue;
+    const removals = toList(value);
+    frontmatter[key] = toList(frontmatter[key]).filter(
+      (item) => !removals.some((removal) => isEqual(item, removal))
+    );
+  }
+}
+
+/**
+ * Check whether a patch has anything to apply
+ */
+export function isEmptyPatch(patch: FrontmatterPatch): boolean {
+  return (
+    !patch.unset?.length &&
+    !Object.keys(patch.set || {}).length &&
+    !Object.keys(patch.merge || {}).length &&
+    !Object.keys(patch.append || {}).length &&
+    !Object.keys(patch.remove || {}).length
+  );
+}
+
+/**
+ * Test a property value. List properties match when any item matches
+ * (all items for not_equals).
+ */
+export function matchesProperty(
+  frontmatter: Record<string, unknown> | undefined,
+  property: string,
+  operator: PropertyOperator,
+  expected?: unknown
+): boolean {
+  const exists = !!frontmatter && property in frontmatter && frontmatter[property] !== null;
+  if (operator === 'exists') return exists;
+  if (operator === 'not_exists') return !exists;
+  if (!exists) return operator === 'not_equals';
+
+  const values = toList(frontmatter![property]);
+  switch (operator) {
+    case 'equals':
+      return values.some((value) => looseEquals(value, expected));
+    case 'not_equals':
+      return !values.some((value) => looseEquals(value, expected));
+    case 'contains':
+      return values.some((value) =>
+        String(value).toLowerCase().includes(String(expected).toLowerCase())
+      );
+    default:
+      return values.some((value) => {
+        const order = compare(value, expected);
+        if (order === null) return false;
+        if (operator === 'gt') return order > 0;
+        if (operator === 'gte') return order >= 0;
+        if (operator === 'lt') return order < 0;
+        return order <= 0;
+      });
+  }
+}
+
+function toList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? [...value] : [value];
+}
+
+function deepMerge(target: unknown, source: unknown): unknown {
+  if (!isObject(target) || !isObject(source)) {
+    return source;
+  }
+  const result: Record<string, unknown> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    result[key] = deepMerge(result[key], value);
+  }
+  return result;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Equality that treats "5" and 5, or "True" and true, as the same value
+ */
+function looseEquals(value: unknown, expected: unknown): boolean {
+  if (isEqual(value, expected)) return true;
+  return String(value).toLowerCase() === String(expected).toLowerCase();
+}
+
+/**
+ * Compare numbers numerically and everything else (ISO dates included) as strings
+ */
+function compare(value: unknown, expected: unknown): number | null {
+  if (expected === undefined || expected === null) return null;
+  const a = Number(value);
+  const b = Number(expected);
+  if (typeof value !== 'boolean' && value !== '' && !isNaN(a) && !isNaN(b)) {
+    return a - b;
+  }
+  if (typeof value === 'object') return null;
+  return String(value).localeCompare(String(expected));
+}
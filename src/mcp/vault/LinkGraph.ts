@@ -0,0 +1,159 @@
+/**
+ * Link graph queries over the vault
+ *
+ * Built on VaultAccess.getResolvedLinks/getUnresolvedLinks, which map
+ * to metadataCache.resolvedLinks/unresolvedLinks inside Obsidian.
+ * Each query takes a fresh snapshot, so results reflect the current vault.
+ */
+
+import type { VaultAccess } from './VaultAccess';
+
+export interface LinkCount {
+  path: string;
+  count: number;
+}
+
+export interface Neighborhood {
+  nodes: Array<{ path: string; distance: number }>;
+  edges: Array<{ source: string; target: string; count: number }>;
+}
+
+export class LinkGraph {
+  private vault: VaultAccess;
+
+  constructor(vault: VaultAccess) {
+    this.vault = vault;
+  }
+
+  /**
+   * Notes linking to a file, most links first
+   */
+  getBacklinks(path: string): LinkCount[] {
+    const backlinks: LinkCount[] = [];
+    for (const [source, targets] of Object.entries(this.vault.getResolvedLinks())) {
+      if (source !== path && targets[path]) {
+        backlinks.push({ path: source, count: targets[path] });
+      }
+    }
+    return sortCounts(backlinks);
+  }
+
+  /**
+   * Files a note links to, and link text that resolves to nothing
+   */
+  getOutgoingLinks(path: string): { resolved: LinkCount[]; unresolved: Array<{ link: string; count: number }> } {
+    const resolved = Object.entries(this.vault.getResolvedLinks()[path] || {}).map(([target, count]) => ({
+      path: target,
+      count,
+    }));
+    const unresolved = Object.entries(this.vault.getUnresolvedLinks()[path] || {})
+      .map(([link, count]) => ({ link, count }))
+      .sort((a, b) => b.count - a.count || a.link.localeCompare(b.link));
+
+    return { resolved: sortCounts(resolved), unresolved };
+  }
+
+  /**
+   * Unresolved link targets with the notes that mention them, optionally for one note
+   */
+  getUnresolvedLinks(path?: string): Array<{ link: string; count: number; sources: string[] }> {
+    const byLink: Map<string, { count: number; sources: string[] }> = new Map();
+
+    for (const [source, links] of Object.entries(this.vault.getUnresolvedLinks())) {
+      if (path && source !== path) continue;
+      for (const [link, count] of Object.entries(links)) {
+        const entry = byLink.get(link) || { count: 0, sources: [] };
+        entry.count += count;
+        entry.sources.push(source);
+        byLink.set(link, entry);
+      }
+    }
+
+    return Array.from(byLink.entries())
+      .map(([link, entry]) => ({ link, count: entry.count, sources: entry.sources.sort() }))
+      .sort((a, b) => b.count - a.count || a.link.localeCompare(b.link));
+  }
+
+  /**
+   * Notes nothing links to. Unless ignoreOutgoing is set, notes that link
+   * out to other files are not orphans (matching the graph view).
+   */
+  findOrphans(ignoreOutgoing = false): string[] {
+    const resolved = this.vault.getResolvedLinks();
+    const linked = new Set<string>();
+
+    for (const [source, targets] of Object.entries(resolved)) {
+      for (const target of Object.keys(targets)) {
+        if (target !== source) {
+          linked.add(target);
+        }
+      }
+    }
+
+    return this.vault
+      .getMarkdownFiles()
+      .map((file) => file.path)
+      .filter((path) => {
+        if (linked.has(path)) return false;
+        if (ignoreOutgoing) return true;
+        return !Object.keys(resolved[path] || {}).some((target) => target !== path);
+      })
+      .sort();
+  }
+
+  /**
+   * Notes within `depth` links of a note, following links in either direction
+   */
+  getNeighborhood(path: string, depth: number, direction: 'both' | 'in' | 'out' = 'both'): Neighborhood {
+    const resolved = this.vault.getResolvedLinks();
+
+    // Reverse index for incoming links
+    const incoming: Map<string, string[]> = new Map();
+    for (const [source, targets] of Object.entries(resolved)) {
+      for (const target of Object.keys(targets)) {
+        const sources = incoming.get(target) || [];
+        sources.push(source);
+        incoming.set(target, sources);
+      }
+    }
+
+    const distances: Map<string, number> = new Map([[path, 0]]);
+    let frontier = [path];
+    for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+      const next: string[] = [];
+      for (const node of frontier) {
+        const neighbors = [
+          ...(direction !== 'in' ? Object.keys(resolved[node] || {}) : []),
+          ...(direction !== 'out' ? incoming.get(node) || [] : []),
+        ];
+        for (const neighbor of neighbors) {
+          if (!distances.has(neighbor)) {
+            distances.set(neighbor, distance);
+            next.push(neighbor);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    const edges: Neighborhood['edges'] = [];
+    for (const source of distances.keys()) {
+      for (const [target, count] of Object.entries(resolved[source] || {})) {
+        if (target !== source && distances.has(target)) {
+          edges.push({ source, target, count });
+        }
+      }
+    }
+
+    return {
+      nodes: Array.from(distances.entries())
+        .map(([node, distance]) => ({ path: node, distance }))
+        .sort((a, b) => a.distance - b.distance || a.path.localeCompare(b.path)),
+      edges,
+    };
+  }
+}
+
+function sortCounts(counts: LinkCount[]): LinkCount[] {
+  return counts.sort((a, b) => b.count - a.count || a.path.localeCompare(b.path));
+}
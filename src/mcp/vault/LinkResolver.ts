@@ -0,0 +1,130 @@
+/**
+ * Link resolution and rewriting without Obsidian
+ *
+ * Follows metadataCache.getFirstLinkpathDest: an exact vault path wins,
+ * then a path relative to the source note, then the shortest path whose
+ * file name matches. Used by the filesystem backend to resolve links and
+ * to update them when a file moves.
+ */
+
+import { NoteLinkCache } from '../types';
+import { normalizeVaultPath, parentFolder } from '../../utils/vaultPath';
+
+/**
+ * Strip the #heading / #^block subpath from a link
+ */
+export function getLinkpath(link: string): string {
+  const hash = link.indexOf('#');
+  return (hash === -1 ? link : link.substring(0, hash)).trim();
+}
+
+/**
+ * The #heading / #^block subpath of a link, including the '#'
+ */
+export function getSubpath(link: string): string {
+  const hash = link.indexOf('#');
+  return hash === -1 ? '' : link.substring(hash);
+}
+
+/**
+ * Resolve a link to a vault path given every file path in the vault
+ */
+export function resolveLinkpath(link: string, sourcePath: string, paths: string[]): string | null {
+  const linkpath = getLinkpath(link);
+  if (!linkpath) {
+    // "[[#Heading]]" points at the source note itself
+    return paths.includes(sourcePath) ? sourcePath : null;
+  }
+
+  const candidates = (base: string): string[] => {
+    const normalized = normalizeVaultPath(base);
+    return /\.[^/.]+$/.test(normalized) ? [normalized, normalized + '.md'] : [normalized + '.md'];
+  };
+
+  const lookup = new Map(paths.map((p) => [p.toLowerCase(), p]));
+  const find = (options: string[]): string | null => {
+    for (const option of options) {
+      const match = lookup.get(option.toLowerCase());
+      if (match) return match;
+    }
+    return null;
+  };
+
+  // Exact vault path
+  const exact = find(candidates(linkpath));
+  if (exact) return exact;
+
+  // Relative to the source note's folder
+  const folder = parentFolder(sourcePath);
+  const relative = resolveRelative(folder, linkpath);
+  if (relative !== null) {
+    const match = find(candidates(relative));
+    if (match) return match;
+  }
+
+  // Any file whose path ends with the link, shortest path first
+  const suffixes = candidates(linkpath).map((c) => '/' + c.toLowerCase());
+  const matches = paths
+    .filter((p) => suffixes.some((suffix) => ('/' + p.toLowerCase()).endsWith(suffix)))
+    .sort((a, b) => a.length - b.length || a.localeCompare(b));
+  return matches[0] ?? null;
+}
+
+/**
+ * Build replacement text for a link so it points at a new target,
+ * keeping the subpath, alias and link style of the original
+ */
+export function retargetLink(
+  link: NoteLinkCache,
+  targetPath: string,
+  sourcePath: string,
+  paths: string[]
+): string {
+  const subpath = getSubpath(link.link);
+  const isEmbed = link.original.startsWith('!');
+
+  if (link.original.startsWith('[[') || link.original.startsWith('![[')) {
+    const alias = link.original.includes('|')
+      ? link.original.substring(link.original.indexOf('|'), link.original.lastIndexOf(']]'))
+      : '';
+    const isNote = targetPath.toLowerCase().endsWith('.md');
+    const withoutExtension = isNote ? targetPath.slice(0, -3) : targetPath;
+    const name = withoutExtension.substring(withoutExtension.lastIndexOf('/') + 1);
+
+    // Prefer the bare name when it resolves unambiguously
+    const linktext = resolveLinkpath(name, sourcePath, paths) === targetPath ? name : withoutExtension;
+    return `${isEmbed ? '!' : ''}[[${linktext}${subpath}${alias}]]`;
+  }
+
+  const target = encodeURI(targetPath) + subpath;
+  return link.original.replace(/\]\(([^)\s]+)/, () => `](${target}`);
+}
+
+/**
+ * Replace link text on the lines where each link appears
+ */
+export function applyLinkEdits(
+  content: string,
+  edits: Array<{ link: NoteLinkCache; replacement: string }>
+): string {
+  const lines = content.split('\n');
+  for (const { link, replacement } of edits) {
+    if (link.line < lines.length) {
+      lines[link.line] = lines[link.line].split(link.original).join(replacement);
+    }
+  }
+  return lines.join('\n');
+}
+
+function resolveRelative(folder: string, linkpath: string): string | null {
+  const parts = folder ? folder.split('/') : [];
+  for (const segment of linkpath.split('/')) {
+    if (segment === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else if (segment !== '.' && segment !== '') {
+      parts.push(segment);
+    }
+  }
+  return parts.join('/');
+}
@@ -0,0 +1,456 @@
+/**
+ * Minimal markdown metadata parser
+ *
+ * Extracts frontmatter, inline tags, links and headings the way
+ * Obsidian's metadataCache does, for use when Obsidian isn't running.
+ * Covers the YAML subset used in frontmatter (scalars, lists, nested
+ * maps, block scalars), not the full YAML spec, and writes it back in
+ * the layout Obsidian's property editor uses.
+ */
+
+import { NoteCache, NoteLinkCache } from '../types';
+
+/**
+ * Result of splitting frontmatter from a note
+ */
+export interface FrontmatterSplit {
+  frontmatter?: Record<string, unknown>;
+  /** Raw YAML between the --- fences */
+  yaml?: string;
+  body: string;
+  /** Zero-based line where the body starts */
+  bodyStartLine: number;
+}
+
+const FRONTMATTER_FENCE = /^---\s*$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+const TAG_PATTERN = /(^|\s)#([\p{L}\p{N}_\-/]+)/gu;
+const WIKILINK_PATTERN = /(!?)\[\[([^\]|]*?)(?:\|([^\]]*))?\]\]/g;
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * Split YAML frontmatter from the note body
+ */
+export function splitFrontmatter(content: string): FrontmatterSplit {
+  const lines = content.split('\n');
+  if (lines.length === 0 || !FRONTMATTER_FENCE.test(lines[0])) {
+    return { body: content, bodyStartLine: 0 };
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    if (FRONTMATTER_FENCE.test(lines[i])) {
+      const yaml = lines.slice(1, i).join('\n');
+      let frontmatter: Record<string, unknown> | undefined;
+      try {
+        frontmatter = parseYaml(yaml);
+      } catch {
+        frontmatter = undefined;
+      }
+      return {
+        frontmatter,
+        yaml,
+        body: lines.slice(i + 1).join('\n'),
+        bodyStartLine: i + 1,
+      };
+    }
+  }
+
+  // Unterminated fence: not frontmatter
+  return { body: content, bodyStartLine: 0 };
+}
+
+/**
+ * Parse a note into the same shape as Obsidian's metadata cache
+ */
+export function parseNoteCache(content: string): NoteCache {
+  const { frontmatter, bodyStartLine } = splitFrontmatter(content);
+  const lines = content.split('\n');
+
+  const cache: NoteCache = {
+    frontmatter,
+    tags: [],
+    links: [],
+    embeds: [],
+    headings: [],
+  };
+
+  let inCodeBlock = false;
+  for (let i = bodyStartLine; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) continue;
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      cache.headings.push({ heading: heading[2], level: heading[1].length, line: i });
+    }
+
+    // Ignore inline code spans when looking for tags and links
+    const text = line.replace(/`[^`]*`/g, (m) => ' '.repeat(m.length));
+
+    for (const match of text.matchAll(TAG_PATTERN)) {
+      // Purely numeric "#123" is not a tag in Obsidian
+      if (!/^\d+$/.test(match[2])) {
+        cache.tags.push({ tag: `#${match[2]}`, line: i });
+      }
+    }
+
+    for (const match of text.matchAll(WIKILINK_PATTERN)) {
+      const target = match[2].trim();
+      if (!target) continue;
+      const link: NoteLinkCache = {
+        link: target,
+        original: match[0],
+        displayText: match[3] ?? target,
+        line: i,
+      };
+      (match[1] ? cache.embeds : cache.links).push(link);
+    }
+
+    for (const match of text.matchAll(MARKDOWN_LINK_PATTERN)) {
+      const target = match[3];
+      if (URL_SCHEME.test(target) || target.startsWith('#')) continue;
+      let decoded = target;
+      try {
+        decoded = decodeURI(target);
+      } catch {
+        // Keep raw target
+      }
+      const link: NoteLinkCache = {
+        link: decoded,
+        original: match[0],
+        displayText: match[2],
+        line: i,
+      };
+      (match[1] ? cache.embeds : cache.links).push(link);
+    }
+  }
+
+  return cache;
+}
+
+/**
+ * Parse the YAML subset used in frontmatter
+ */
+export function parseYaml(text: string): Record<string, unknown> {
+  const lines = text
+    .split('\n')
+    .map((line) => line.replace(/\t/g, '  '))
+    .filter((line) => line.trim() !== '' && !line.trim().startsWith('#'));
+
+  if (lines.length === 0) {
+    return {};
+  }
+
+  const [value] = parseBlock(lines, 0, indentOf(lines[0]));
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Frontmatter must be a mapping');
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Serialize frontmatter back to YAML (without the --- fences)
+ */
+export function stringifyYaml(data: Record<string, unknown>): string {
+  return writeMap(data, 0).join('\n') + '\n';
+}
+
+function writeMap(data: Record<string, unknown>, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  const lines: string[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    const name = needsQuotes(key) ? JSON.stringify(key) : key;
+    if (Array.isArray(value) && value.length > 0) {
+      lines.push(`${pad}${name}:`, ...writeList(value, indent + 2));
+    } else if (isPlainObject(value) && Object.keys(value).length > 0) {
+      lines.push(`${pad}${name}:`, ...writeMap(value, indent + 2));
+    } else {
+      const scalar = writeScalar(value);
+      lines.push(scalar === '' ? `${pad}${name}:` : `${pad}${name}: ${scalar}`);
+    }
+  }
+
+  return lines;
+}
+
+function writeList(items: unknown[], indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  const lines: string[] = [];
+
+  for (const item of items) {
+    if (isPlainObject(item) && Object.keys(item).length > 0) {
+      // First key shares the "- " line, the rest align under it
+      const [first, ...rest] = writeMap(item, indent + 2);
+      lines.push(`${pad}- ${first.trimStart()}`, ...rest);
+    } else {
+      lines.push(`${pad}- ${writeScalar(item)}`);
+    }
+  }
+
+  return lines;
+}
+
+function writeScalar(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean' || typeof value === 'number') return String(value);
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return `[${value.map(writeScalar).join(', ')}]`;
+  if (isPlainObject(value)) {
+    const pairs = Object.entries(value).map(([k, v]) => `${needsQuotes(k) ? JSON.stringify(k) : k}: ${writeScalar(v)}`);
+    return `{${pairs.join(', ')}}`;
+  }
+
+  const text = String(value);
+  return needsQuotes(text) ? JSON.stringify(text) : text;
+}
+
+/**
+ * Whether a string would parse as something else (or not at all) unquoted
+ */
+function needsQuotes(text: string): boolean {
+  return (
+    text === '' ||
+    text !== text.trim() ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /:(\s|$)|\s#|\n/.test(text) ||
+    /^(true|false|null|~)$/i.test(text) ||
+    /^-?\d+(\.\d+)?$/.test(text)
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function parseBlock(lines: string[], start: number, indent: number): [unknown, number] {
+  const first = lines[start].trim();
+  if (first === '-' || first.startsWith('- ')) {
+    return parseList(lines, start, indent);
+  }
+  return parseMap(lines, start, indent);
+}
+
+function parseMap(lines: string[], start: number, indent: number): [Record<string, unknown>, number] {
+  const result: Record<string, unknown> = {};
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const lineIndent = indentOf(line);
+    if (lineIndent < indent) break;
+    if (lineIndent > indent) {
+      i++;
+      continue;
+    }
+
+    const match = line.trim().match(/^("[^"]*"|'[^']*'|[^:]+?):(?:\s+(.*))?$/);
+    if (!match) break;
+
+    const key = unquote(match[1]);
+    const rest = (match[2] ?? '').trim();
+
+    if (rest === '') {
+      const next = lines[i + 1];
+      if (next !== undefined && indentOf(next) > indent) {
+        const [value, end] = parseBlock(lines, i + 1, indentOf(next));
+        result[key] = value;
+        i = end;
+      } else if (next !== undefined && indentOf(next) === indent && /^-(\s|$)/.test(next.trim())) {
+        // "key:\n- item" lists at the same indentation
+        const [value, end] = parseList(lines, i + 1, indent);
+        result[key] = value;
+        i = end;
+      } else {
+        result[key] = null;
+        i++;
+      }
+    } else if (/^[|>][+-]?$/.test(rest)) {
+      const [value, end] = parseBlockScalar(lines, i + 1, indent, rest.startsWith('>'));
+      result[key] = value;
+      i = end;
+    } else {
+      result[key] = parseScalar(rest);
+      i++;
+    }
+  }
+
+  return [result, i];
+}
+
+function parseList(lines: string[], start: number, indent: number): [unknown[], number] {
+  const result: unknown[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    if (indentOf(line) !== indent || !/^-(\s|$)/.test(trimmed)) break;
+
+    const item = trimmed.slice(1).trim();
+    if (item === '') {
+      const next = lines[i + 1];
+      if (next !== undefined && indentOf(next) > indent) {
+        const [value, end] = parseBlock(lines, i + 1, indentOf(next));
+        result.push(value);
+        i = end;
+      } else {
+        result.push(null);
+        i++;
+      }
+    } else if (/^[^"'[{][^:]*:(\s|$)/.test(item)) {
+      // "- key: value" starts an inline mapping item
+      const itemIndent = indent + (trimmed.length - item.length);
+      const itemLines = [' '.repeat(itemIndent) + item];
+      let j = i + 1;
+      while (j < lines.length && indentOf(lines[j]) >= itemIndent) {
+        itemLines.push(lines[j]);
+        j++;
+      }
+      const [value] = parseMap(itemLines, 0, itemIndent);
+      result.push(value);
+      i = j;
+    } else {
+      result.push(parseScalar(item));
+      i++;
+    }
+  }
+
+  return [result, i];
+}
+
+function parseBlockScalar(
+  lines: string[],
+  start: number,
+  parentIndent: number,
+  folded: boolean
+): [string, number] {
+  const collected: string[] = [];
+  let i = start;
+  let blockIndent = -1;
+
+  while (i < lines.length && indentOf(lines[i]) > parentIndent) {
+    if (blockIndent === -1) {
+      blockIndent = indentOf(lines[i]);
+    }
+    collected.push(lines[i].slice(blockIndent));
+    i++;
+  }
+
+  return [collected.join(folded ? ' ' : '\n'), i];
+}
+
+/**
+ * Parse a scalar or flow collection
+ */
+export function parseScalar(raw: string): unknown {
+  let value = raw.trim();
+
+  if (value.startsWith('"')) {
+    const end = findClosingQuote(value, '"');
+    try {
+      return JSON.parse(value.slice(0, end + 1));
+    } catch {
+      return value.slice(1, end);
+    }
+  }
+  if (value.startsWith("'")) {
+    const end = findClosingQuote(value, "'");
+    return value.slice(1, end).replace(/''/g, "'");
+  }
+
+  // Strip trailing comments
+  value = value.replace(/\s+#.*$/, '');
+
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const inner = value.slice(1, -1).trim();
+    return inner ? splitFlow(inner).map(parseScalar) : [];
+  }
+  if (value.startsWith('{') && value.endsWith('}')) {
+    const inner = value.slice(1, -1).trim();
+    const result: Record<string, unknown> = {};
+    for (const pair of inner ? splitFlow(inner) : []) {
+      const separator = pair.indexOf(':');
+      if (separator === -1) continue;
+      result[unquote(pair.slice(0, separator).trim())] = parseScalar(pair.slice(separator + 1));
+    }
+    return result;
+  }
+
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+
+  return value;
+}
+
+function findClosingQuote(value: string, quote: string): number {
+  for (let i = 1; i < value.length; i++) {
+    if (quote === '"' && value[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (value[i] === quote) {
+      if (quote === "'" && value[i + 1] === "'") {
+        i++;
+        continue;
+      }
+      return i;
+    }
+  }
+  return value.length;
+}
+
+/**
+ * Split a flow collection body on top-level commas
+ */
+function splitFlow(inner: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (
+    (trimmed.startsWith('"') && trimmed.endsWith('"')) ||
+    (trimmed.startsWith("'") && trimmed.endsWith("'"))
+  ) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
@@ -0,0 +1,283 @@
+/**
+ * Targeted note edits
+ *
+ * Applies a NoteEdit to note content without touching anything outside
+ * the targeted region. Targets are resolved against the current content,
+ * so concurrent edits elsewhere in the note are preserved.
+ */
+
+import { NoteEdit } from '../types';
+import { parseNoteCache } from './MarkdownParser';
+
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s/;
+const HEADING_LINE_PATTERN = /^#{1,6}\s/;
+
+/**
+ * Apply an edit and return the new content
+ */
+export function applyNoteEdit(content: string, edit: NoteEdit): string {
+  const targets = [edit.heading, edit.block, edit.lines, edit.match].filter((t) => t !== undefined);
+  if (targets.length !== 1) {
+    throw new Error('Specify exactly one target: heading, block, lines or match');
+  }
+  if (edit.operation !== 'delete' && typeof edit.content !== 'string') {
+    throw new Error(`"content" is required for ${edit.operation}`);
+  }
+
+  if (edit.match !== undefined) {
+    return editMatch(content, edit);
+  }
+
+  const lines = content.split('\n');
+  const insert = toLines(edit.content ?? '');
+
+  if (edit.heading !== undefined) {
+    return editHeading(content, lines, edit, insert);
+  }
+
+  if (edit.operation === 'append' || edit.operation === 'prepend') {
+    throw new Error(`${edit.operation} is only supported for heading targets`);
+  }
+
+  let start: number;
+  let end: number;
+  if (edit.block !== undefined) {
+    [start, end] = findBlock(lines, edit.block);
+    if (edit.operation === 'replace') {
+      keepBlockId(insert, edit.block);
+    }
+  } else {
+    [start, end] = lineRange(lines, edit.lines!);
+  }
+
+  switch (edit.operation) {
+    case 'replace':
+      lines.splice(start, end - start, ...insert);
+      break;
+    case 'delete':
+      lines.splice(start, end - start);
+      break;
+    case 'insert_before':
+      lines.splice(start, 0, ...insert);
+      break;
+    case 'insert_after':
+      lines.splice(end, 0, ...insert);
+      break;
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Headings of a note as "## Heading" strings, for error messages
+ */
+export function listHeadings(content: string): string[] {
+  return parseNoteCache(content).headings.map((h) => `${'#'.repeat(h.level)} ${h.heading}`);
+}
+
+function editHeading(content: string, lines: string[], edit: NoteEdit, insert: string[]): string {
+  const section = findSection(content, edit.heading!);
+  // A section running to the end of the file stops before the note's final newline
+  const end = Math.min(section.end, lines[lines.length - 1] === '' ? lines.length - 1 : lines.length);
+  const line = section.line;
+
+  // Section body without trailing blank lines, so appends sit with the content
+  let bodyEnd = end;
+  while (bodyEnd > line + 1 && lines[bodyEnd - 1].trim() === '') {
+    bodyEnd--;
+  }
+
+  switch (edit.operation) {
+    case 'replace':
+      lines.splice(line + 1, bodyEnd - line - 1, ...insert);
+      break;
+    case 'delete':
+      lines.splice(line, end - line);
+      break;
+    case 'prepend':
+      lines.splice(line + 1, 0, ...insert);
+      break;
+    case 'append':
+      lines.splice(bodyEnd, 0, ...insert);
+      break;
+    case 'insert_before':
+      lines.splice(line, 0, ...insert);
+      break;
+    case 'insert_after':
+      lines.splice(end, 0, ...insert);
+      break;
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Resolve a heading path to the heading line and the end of its section
+ */
+function findSection(content: string, headingPath: string): { line: number; end: number } {
+  const headings = parseNoteCache(content).headings;
+  const lineCount = content.split('\n').length;
+  const parts = headingPath.split('>').map((p) => p.trim()).filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error('Heading path is empty');
+  }
+
+  const sectionEnd = (index: number): number => {
+    const next = headings.slice(index + 1).find((h) => h.level <= headings[index].level);
+    return next ? next.line : lineCount;
+  };
+
+  let scopeStart = 0;
+  let scopeEnd = lineCount;
+  let minLevel = 0;
+  let found = -1;
+
+  for (const part of parts) {
+    const spec = part.match(/^(#{1,6})\s+(.+)$/);
+    const level = spec ? spec[1].length : undefined;
+    const text = (spec ? spec[2] : part).trim().toLowerCase();
+
+    const candidates = headings
+      .map((h, index) => ({ ...h, index }))
+      .filter(
+        (h) =>
+          h.line >= scopeStart &&
+          h.line < scopeEnd &&
+          h.level > minLevel &&
+          (level === undefined || h.level === level) &&
+          h.heading.trim().toLowerCase() === text
+      );
+
+    if (candidates.length === 0) {
+      const available = listHeadings(content);
+      throw new Error(
+        `Heading not found: "${part}"` +
+          (available.length ? `. Headings: ${available.join(', ')}` : '. The note has no headings')
+      );
+    }
+    if (candidates.length > 1) {
+      throw new Error(
+        `Heading "${part}" is ambiguous (lines ${candidates.map((c) => c.line + 1).join(', ')}); add parent headings with " > "`
+      );
+    }
+
+    found = candidates[0].index;
+    scopeStart = headings[found].line + 1;
+    scopeEnd = sectionEnd(found);
+    minLevel = headings[found].level;
+  }
+
+  return { line: headings[found].line, end: sectionEnd(found) };
+}
+
+/**
+ * Find the lines of a ^block-id block: the list item, or the paragraph
+ * the id closes
+ */
+function findBlock(lines: string[], blockId: string): [number, number] {
+  const id = blockId.replace(/^\^/, '');
+  if (!/^[A-Za-z0-9-]+$/.test(id)) {
+    throw new Error(`Invalid block id: ${blockId}`);
+  }
+
+  const idPattern = new RegExp(`(?:^|\\s)\\^${id}\\s*$`);
+  const matches = lines.map((line, i) => (idPattern.test(line) ? i : -1)).filter((i) => i !== -1);
+  if (matches.length === 0) {
+    throw new Error(`Block not found: ^${id}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Block id ^${id} appears ${matches.length} times`);
+  }
+
+  const idLine = matches[0];
+  if (LIST_ITEM_PATTERN.test(lines[idLine])) {
+    return [idLine, idLine + 1];
+  }
+
+  let start = idLine;
+  while (
+    start > 0 &&
+    lines[start - 1].trim() !== '' &&
+    !HEADING_LINE_PATTERN.test(lines[start - 1]) &&
+    !LIST_ITEM_PATTERN.test(lines[start - 1])
+  ) {
+    start--;
+  }
+  return [start, idLine + 1];
+}
+
+/**
+ * Re-attach the block id when replacement text drops it, so links keep working
+ */
+function keepBlockId(insert: string[], blockId: string): void {
+  const id = blockId.replace(/^\^/, '');
+  if (insert.some((line) => new RegExp(`(?:^|\\s)\\^${id}\\s*$`).test(line))) {
+    return;
+  }
+
+  for (let i = insert.length - 1; i >= 0; i--) {
+    if (insert[i].trim() !== '') {
+      insert[i] = `${insert[i].replace(/\s+$/, '')} ^${id}`;
+      return;
+    }
+  }
+  insert.push(`^${id}`);
+}
+
+function lineRange(lines: string[], range: { start: number; end?: number }): [number, number] {
+  const start = range.start;
+  const end = range.end ?? range.start;
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end < start) {
+    throw new Error('lines must be { start, end } with 1 <= start <= end');
+  }
+  if (end > lines.length) {
+    throw new Error(`Line ${end} is past the end of the note (${lines.length} lines)`);
+  }
+  return [start - 1, end];
+}
+
+function editMatch(content: string, edit: NoteEdit): string {
+  const match = edit.match!;
+  if (!match) {
+    throw new Error('match must not be empty');
+  }
+  if (edit.operation === 'append' || edit.operation === 'prepend') {
+    throw new Error(`${edit.operation} is only supported for heading targets`);
+  }
+
+  const index = content.indexOf(match);
+  if (index === -1) {
+    throw new Error('match not found in note');
+  }
+
+  let count = 0;
+  for (let i = index; i !== -1; i = content.indexOf(match, i + 1)) {
+    count++;
+  }
+  if (count > 1) {
+    throw new Error(`match occurs ${count} times; include more surrounding text to make it unique`);
+  }
+
+  const before = content.slice(0, index);
+  const after = content.slice(index + match.length);
+  const text = edit.content ?? '';
+
+  switch (edit.operation) {
+    case 'replace':
+      return before + text + after;
+    case 'delete':
+      return before + after;
+    case 'insert_before':
+      return before + text + match + after;
+    default:
+      return before + match + text + after;
+  }
+}
+
+function toLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
@@ -0,0 +1,77 @@
+/**
+ * Optimistic concurrency for note writes
+ *
+ * read_note returns a hash of the content; write_note and edit_note
+ * accept it back as `ifMatch` and fail if the note changed in between.
+ * Recently read contents are kept by hash so the conflict can show what
+ * changed since the client's read.
+ */
+
+import { hashContent } from '../../utils/hash';
+import { createUnifiedDiff } from '../../utils/diff';
+
+/** Read versions kept for conflict diffs */
+const MAX_REMEMBERED = 50;
+
+export class VersionConflictError extends Error {
+  readonly path: string;
+  /** Hash of the current content, or null if the note no longer exists */
+  readonly currentHash: string | null;
+  /** Changes since the client's read, when that version is still known */
+  readonly diff: string | null;
+
+  constructor(path: string, currentHash: string | null, diff: string | null) {
+    super(
+      currentHash === null
+        ? `${path} was deleted since it was read`
+        : `${path} has changed since it was read; read it again and retry`
+    );
+    this.name = 'VersionConflictError';
+    this.path = path;
+    this.currentHash = currentHash;
+    this.diff = diff;
+  }
+}
+
+export class NoteVersions {
+  private remembered: Map<string, string> = new Map();
+  private redact: (text: string, path: string) => string;
+
+  /**
+   * @param redact Applied to both versions before a conflict diff, so the
+   * diff shows no more than the client could read
+   */
+  constructor(redact: (text: string, path: string) => string = (text) => text) {
+    this.redact = redact;
+  }
+
+  /**
+   * Hash of content returned to a client, remembering it for conflict diffs
+   */
+  remember(content: string): string {
+    const hash = hashContent(content);
+    this.remembered.delete(hash);
+    this.remembered.set(hash, content);
+    if (this.remembered.size > MAX_REMEMBERED) {
+      this.remembered.delete(this.remembered.keys().next().value!);
+    }
+    return hash;
+  }
+
+  /**
+   * Throw a VersionConflictError unless the note's current content
+   * (null if missing) matches the expected hash
+   */
+  check(path: string, ifMatch: string, current: string | null): void {
+    const currentHash = current === null ? null : hashContent(current);
+    if (currentHash === ifMatch.trim().toLowerCase()) {
+      return;
+    }
+
+    const base = this.remembered.get(ifMatch.trim().toLowerCase());
+    const diff = base === undefined
+      ? null
+      : createUnifiedDiff(this.redact(base, path), this.redact(current ?? '', path), path);
+    throw new VersionConflictError(path, currentHash, diff);
+  }
+}
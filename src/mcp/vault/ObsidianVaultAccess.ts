@@ -0,0 +1,235 @@
+/**
+ * Vault access backed by a running Obsidian instance
+ *
+ * Uses the Vault API and metadataCache so writes trigger Obsidian's
+ * own events, indexing and sync.
+ */
+
+import { App, CachedMetadata, EventRef, TFile, TFolder, getLinkpath } from 'obsidian';
+import { NoteCache, NoteLinkCache, VaultChangeEvent, VaultFile } from '../types';
+import { VaultAccess } from './VaultAccess';
+
+export class ObsidianVaultAccess implements VaultAccess {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  getName(): string {
+    return this.app.vault.getName();
+  }
+
+  getBasePath(): string {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (this.app.vault.adapter as any).basePath || '';
+  }
+
+  getMarkdownFiles(): VaultFile[] {
+    return this.app.vault.getMarkdownFiles().map((file) => this.toVaultFile(file));
+  }
+
+  getFiles(): VaultFile[] {
+    return this.app.vault.getFiles().map((file) => this.toVaultFile(file));
+  }
+
+  getFile(path: string): VaultFile | null {
+    const file = this.getTFile(path);
+    return file ? this.toVaultFile(file) : null;
+  }
+
+  isFolder(path: string): boolean {
+    return this.app.vault.getAbstractFileByPath(path) instanceof TFolder;
+  }
+
+  async read(path: string): Promise<string> {
+    return this.app.vault.read(this.requireTFile(path));
+  }
+
+  async create(path: string, content: string): Promise<void> {
+    await this.app.vault.create(path, content);
+  }
+
+  async modify(path: string, content: string): Promise<void> {
+    await this.app.vault.modify(this.requireTFile(path), content);
+  }
+
+  async readBinary(path: string): Promise<ArrayBuffer> {
+    return this.app.vault.readBinary(this.requireTFile(path));
+  }
+
+  async writeBinary(path: string, data: ArrayBuffer): Promise<void> {
+    const file = this.getTFile(path);
+    if (file) {
+      await this.app.vault.modifyBinary(file, data);
+    } else {
+      await this.app.vault.createBinary(path, data);
+    }
+  }
+
+  async createFolder(path: string): Promise<void> {
+    await this.app.vault.createFolder(path);
+  }
+
+  async rename(path: string, newPath: string): Promise<void> {
+    // fileManager honours the "Automatically update internal links" setting
+    await this.app.fileManager.renameFile(this.requireTFile(path), newPath);
+  }
+
+  async trash(path: string, system: boolean): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!file) {
+      throw new Error(`Not found: ${path}`);
+    }
+    await this.app.vault.trash(file, system);
+  }
+
+  async delete(path: string): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!file) {
+      throw new Error(`Not found: ${path}`);
+    }
+    await this.app.vault.delete(file);
+  }
+
+  getResolvedLinks(): Record<string, Record<string, number>> {
+    return this.app.metadataCache.resolvedLinks;
+  }
+
+  getUnresolvedLinks(): Record<string, Record<string, number>> {
+    return this.app.metadataCache.unresolvedLinks;
+  }
+
+  resolveLink(link: string, sourcePath: string): string | null {
+    return this.app.metadataCache.getFirstLinkpathDest(getLinkpath(link), sourcePath)?.path ?? null;
+  }
+
+  async processFrontMatter(
+    path: string,
+    fn: (frontmatter: Record<string, unknown>) => void
+  ): Promise<void> {
+    await this.app.fileManager.processFrontMatter(this.requireTFile(path), fn);
+  }
+
+  getMetadata(path: string): NoteCache | null {
+    const file = this.getTFile(path);
+    if (!file) {
+      return null;
+    }
+
+    const cache = this.app.metadataCache.getFileCache(file);
+    return cache ? this.toNoteCache(cache) : null;
+  }
+
+  async readRootFile(name: string): Promise<string | null> {
+    const { adapter } = this.app.vault;
+    return (await adapter.exists(name)) ? adapter.read(name) : null;
+  }
+
+  async readConfigFile(name: string): Promise<string | null> {
+    const { adapter, configDir } = this.app.vault;
+    const configPath = `${configDir}/${name}`;
+    return (await adapter.exists(configPath)) ? adapter.read(configPath) : null;
+  }
+
+  async writeConfigFile(name: string, content: string): Promise<void> {
+    const { adapter, configDir } = this.app.vault;
+    const configPath = `${configDir}/${name}`;
+    const folder = configPath.substring(0, configPath.lastIndexOf('/'));
+    if (!(await adapter.exists(folder))) {
+      await adapter.mkdir(folder);
+    }
+    await adapter.write(configPath, content);
+  }
+
+  async appendConfigFile(name: string, content: string): Promise<void> {
+    const { adapter, configDir } = this.app.vault;
+    const configPath = `${configDir}/${name}`;
+    if (!(await adapter.exists(configPath))) {
+      await this.writeConfigFile(name, content);
+      return;
+    }
+    await adapter.append(configPath, content);
+  }
+
+  async removeConfigFile(name: string): Promise<void> {
+    const { adapter, configDir } = this.app.vault;
+    const configPath = `${configDir}/${name}`;
+    if (await adapter.exists(configPath)) {
+      await adapter.remove(configPath);
+    }
+  }
+
+  async listConfigFolder(name: string): Promise<string[]> {
+    const { adapter, configDir } = this.app.vault;
+    const folder = `${configDir}/${name}`;
+    if (!(await adapter.exists(folder))) {
+      return [];
+    }
+    const { files } = await adapter.list(folder);
+    return files.map((file) => file.substring(file.lastIndexOf('/') + 1));
+  }
+
+  watch(listener: (event: VaultChangeEvent) => void): () => void {
+    const { vault } = this.app;
+    const refs: EventRef[] = [
+      vault.on('create', (file) => listener({ type: 'create', path: file.path })),
+      vault.on('modify', (file) => listener({ type: 'modify', path: file.path })),
+      vault.on('delete', (file) => listener({ type: 'delete', path: file.path })),
+      vault.on('rename', (file, oldPath) => listener({ type: 'rename', path: file.path, oldPath })),
+    ];
+
+    return () => refs.forEach((ref) => vault.offref(ref));
+  }
+
+  /**
+   * Get the underlying TFile (null for folders and missing paths)
+   */
+  private getTFile(path: string): TFile | null {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+  }
+
+  private requireTFile(path: string): TFile {
+    const file = this.getTFile(path);
+    if (!file) {
+      throw new Error(`Note not found: ${path}`);
+    }
+    return file;
+  }
+
+  private toVaultFile(file: TFile): VaultFile {
+    return {
+      path: file.path,
+      name: file.name,
+      basename: file.basename,
+      extension: file.extension,
+      stat: {
+        size: file.stat.size,
+        ctime: file.stat.ctime,
+        mtime: file.stat.mtime,
+      },
+    };
+  }
+
+  private toNoteCache(cache: CachedMetadata): NoteCache {
+    const toLink = (link: { link: string; original: string; displayText?: string; position: { start: { line: number } } }): NoteLinkCache => ({
+      link: link.link,
+      original: link.original,
+      displayText: link.displayText,
+      line: link.position.start.line,
+    });
+
+    return {
+      frontmatter: cache.frontmatter,
+      tags: (cache.tags || []).map((t) => ({ tag: t.tag, line: t.position.start.line })),
+      links: (cache.links || []).map(toLink),
+      embeds: (cache.embeds || []).map(toLink),
+      headings: (cache.headings || []).map((h) => ({
+        heading: h.heading,
+        level: h.level,
+        line: h.position.start.line,
+      })),
+    };
+  }
+}
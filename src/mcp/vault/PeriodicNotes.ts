@@ -0,0 +1,136 @@
+/**
+ * Daily and periodic note resolution
+ *
+ * Reads the same settings Obsidian uses, so notes land where the user
+ * expects: the Periodic Notes plugin (.obsidian/plugins/periodic-notes/
+ * data.json) when it configures a period, otherwise the core Daily Notes
+ * plugin (.obsidian/daily-notes.json) for daily notes, otherwise defaults.
+ */
+
+import type { VaultAccess } from './VaultAccess';
+import type { TemplateLibrary } from './TemplateLibrary';
+import { Period, formatDate, resolveDate, startOfPeriod } from '../../utils/dates';
+import { normalizeVaultPath } from '../../utils/vaultPath';
+
+export interface PeriodicNoteConfig {
+  folder: string;
+  /** moment.js format for the file name (may contain folders) */
+  format: string;
+  /** Template note path, or '' for none */
+  template: string;
+}
+
+export interface PeriodicNoteTarget {
+  period: Period;
+  /** Vault path of the note */
+  path: string;
+  /** Start of the period */
+  date: Date;
+  config: PeriodicNoteConfig;
+}
+
+const DEFAULT_FORMATS: Record<Period, string> = {
+  daily: 'YYYY-MM-DD',
+  weekly: 'gggg-[W]ww',
+  monthly: 'YYYY-MM',
+  quarterly: 'YYYY-[Q]Q',
+  yearly: 'YYYY',
+};
+
+export class PeriodicNotes {
+  private vault: VaultAccess;
+  private templates: TemplateLibrary;
+
+  constructor(vault: VaultAccess, templates: TemplateLibrary) {
+    this.vault = vault;
+    this.templates = templates;
+  }
+
+  /**
+   * Folder, format and template configured for a period
+   */
+  async getConfig(period: Period): Promise<PeriodicNoteConfig> {
+    const periodic = await this.readJson('plugins/periodic-notes/data.json');
+    const periodSettings = periodic?.[period] as Record<string, unknown> | undefined;
+    if (periodSettings && periodSettings.enabled) {
+      return this.toConfig(period, periodSettings);
+    }
+
+    if (period === 'daily') {
+      const daily = await this.readJson('daily-notes.json');
+      if (daily) {
+        return this.toConfig(period, daily);
+      }
+    }
+
+    return { folder: '', format: DEFAULT_FORMATS[period], template: '' };
+  }
+
+  /**
+   * Work out which note a date expression refers to
+   */
+  async resolve(period: Period, dateInput?: string): Promise<PeriodicNoteTarget> {
+    const config = await this.getConfig(period);
+    // ISO week tokens mean weeks start on Monday
+    const isoWeek = /W|G/.test(config.format.replace(/\[[^\]]*\]/g, ''));
+    const date = startOfPeriod(resolveDate(dateInput), period, isoWeek);
+
+    const name = formatDate(date, config.format);
+    const path = normalizeVaultPath(config.folder ? `${config.folder}/${name}.md` : `${name}.md`);
+
+    return { period, path, date, config };
+  }
+
+  /**
+   * Initial content for a new periodic note: the rendered template, or empty
+   */
+  async renderNewNote(target: PeriodicNoteTarget): Promise<string> {
+    if (!target.config.template) {
+      return '';
+    }
+
+    const templatePath = this.findTemplate(target.config.template);
+    if (!templatePath) {
+      throw new Error(`Template not found: ${target.config.template}`);
+    }
+
+    const title = target.path.substring(target.path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+    return this.templates.render(templatePath, { title, date: target.date });
+  }
+
+  /**
+   * Template settings accept paths with or without ".md"
+   */
+  private findTemplate(template: string): string | null {
+    const path = normalizeVaultPath(template);
+    for (const candidate of [path, `${path}.md`]) {
+      if (this.vault.getFile(candidate)) {
+        return candidate;
+      }
+    }
+    return this.vault.resolveLink(path, '');
+  }
+
+  private toConfig(period: Period, settings: Record<string, unknown>): PeriodicNoteConfig {
+    const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+    const folder = text(settings.folder);
+    return {
+      folder: folder && folder !== '/' ? normalizeVaultPath(folder) : '',
+      format: text(settings.format) || DEFAULT_FORMATS[period],
+      template: text(settings.template),
+    };
+  }
+
+  private async readJson(name: string): Promise<Record<string, unknown> | null> {
+    const raw = await this.vault.readConfigFile(name);
+    if (!raw) {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      return typeof parsed === 'object' && parsed !== null ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+}
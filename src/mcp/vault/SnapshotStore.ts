@@ -0,0 +1,475 @@
+/**
+ * Pre-change copies of notes the agent modifies, for undo
+ *
+ * MCPServer runs each tool call inside track(); the vault returned by
+ * wrap() records what every create, modify, frontmatter update, move,
+ * trash and attachment write replaces. Content is stored once per hash
+ * in the plugin's data folder (attachments base64-encoded), and the
+ * oldest changes are dropped when the stored copies exceed the
+ * retention size.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { VaultAccess } from './VaultAccess';
+import { parentFolder } from '../../utils/vaultPath';
+import { hashContent } from '../../utils/hash';
+import type { ObsidianCCSettings } from '../../settings/SettingsSchema';
+
+export interface AgentChange {
+  id: string;
+  sessionId?: string;
+  clientId?: string;
+  tool: string;
+  action: 'create' | 'modify' | 'delete' | 'move';
+  path: string;
+  /** Previous path, for moves */
+  oldPath?: string;
+  /** Hash of the content before the change (null when the note didn't exist) */
+  before: string | null;
+  /** Hash of the content right after the change, to detect later edits */
+  after: string | null;
+  /** Attachment written with writeBinary; before and after hash its base64 */
+  binary?: boolean;
+  timestamp: number;
+  reverted?: boolean;
+}
+
+interface SnapshotIndex {
+  changes: AgentChange[];
+  /** Stored copy sizes in bytes, by hash */
+  blobs: Record<string, number>;
+}
+
+interface TrackContext {
+  sessionId?: string;
+  clientId?: string;
+  tool: string;
+  /** IDs of the changes recorded, when a caller collects them */
+  recorded?: string[];
+}
+
+const DATA_FOLDER = 'plugins/obsidian-cc/snapshots';
+const INDEX_FILE = `${DATA_FOLDER}/index.json`;
+const BLOB_FOLDER = `${DATA_FOLDER}/blobs`;
+
+/** Files read as text; anything else is not snapshotted */
+const TEXT_EXTENSIONS = ['md', 'txt', 'json', 'yaml', 'yml', 'csv', 'canvas'];
+
+export class SnapshotStore {
+  private vault: VaultAccess;
+  private settings: ObsidianCCSettings;
+  private context = new AsyncLocalStorage<TrackContext>();
+  private index: SnapshotIndex | null = null;
+  // Index updates run one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+  private listeners: Set<() => void> = new Set();
+
+  constructor(vault: VaultAccess, settings: ObsidianCCSettings) {
+    this.vault = vault;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: ObsidianCCSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Attribute vault writes made while fn runs to a session and tool
+   */
+  track<T>(context: TrackContext, fn: () => Promise<T>): Promise<T> {
+    return this.context.run(context, fn);
+  }
+
+  /**
+   * Run fn inside the current track(), adding the IDs of the changes it
+   * records to ids, so a caller that rolls fn back can forget() them
+   */
+  collect<T>(ids: string[], fn: () => Promise<T>): Promise<T> {
+    const context = this.context.getStore();
+    return context ? this.context.run({ ...context, recorded: ids }, fn) : fn();
+  }
+
+  /**
+   * Run fn without recording its writes, e.g. a rollback
+   */
+  untracked<T>(fn: () => Promise<T>): Promise<T> {
+    return this.context.exit(fn);
+  }
+
+  /**
+   * Drop recorded changes whose writes were rolled back
+   */
+  async forget(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.enqueue(async () => {
+      const index = await this.load();
+      index.changes = index.changes.filter((c) => !ids.includes(c.id));
+      await this.removeUnreferencedBlobs(index);
+      await this.save();
+    });
+  }
+
+  /**
+   * The vault, with writes made inside track() recorded
+   */
+  wrap(): VaultAccess {
+    const inner = this.vault;
+
+    const recorded: Partial<VaultAccess> = {
+      create: async (path, content) => {
+        await inner.create(path, content);
+        await this.record({ action: 'create', path }, null, content);
+      },
+
+      modify: async (path, content) => {
+        const before = await this.capture(path);
+        await inner.modify(path, content);
+        await this.record({ action: 'modify', path }, before, content);
+      },
+
+      processFrontMatter: async (path, fn) => {
+        const before = await this.capture(path);
+        await inner.processFrontMatter(path, fn);
+        await this.record({ action: 'modify', path }, before, await this.capture(path));
+      },
+
+      rename: async (path, newPath) => {
+        const before = await this.capture(path);
+        await inner.rename(path, newPath);
+        // Moving can rewrite the note's own relative links
+        await this.record({ action: 'move', path: newPath, oldPath: path }, before, await this.capture(newPath));
+      },
+
+      trash: async (path, system) => {
+        const files = inner.getFile(path)
+          ? [path]
+          : inner.getFiles().map((file) => file.path).filter((p) => p.startsWith(path + '/'));
+        const contents = await Promise.all(files.map((file) => this.capture(file)));
+        await inner.trash(path, system);
+        for (let i = 0; i < files.length; i++) {
+          await this.record({ action: 'delete', path: files[i] }, contents[i], null);
+        }
+      },
+
+      writeBinary: async (path, data) => {
+        const before = inner.getFile(path) ? await this.captureBinary(path) : null;
+        await inner.writeBinary(path, data);
+        await this.record(
+          { action: before === null ? 'create' : 'modify', path, binary: true },
+          before,
+          Buffer.from(data).toString('base64')
+        );
+      },
+
+      // Only used to roll back a failed batch
+      delete: async (path) => {
+        const before = inner.getFile(path) ? await this.capture(path) : null;
+        await inner.delete(path);
+        await this.record({ action: 'delete', path }, before, null);
+      },
+    };
+
+    return new Proxy(inner, {
+      get: (target, property, receiver) => {
+        if (property in recorded) {
+          return recorded[property as keyof VaultAccess];
+        }
+        const value = Reflect.get(target, property, receiver);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+  }
+
+  /**
+   * All recorded changes, newest first
+   */
+  async list(): Promise<AgentChange[]> {
+    const index = await this.load();
+    return [...index.changes].reverse();
+  }
+
+  /**
+   * Revert one change. Refuses if the note changed since, unless forced.
+   */
+  async undo(id: string, force = false): Promise<AgentChange> {
+    return this.enqueue(async () => {
+      const index = await this.load();
+      const change = index.changes.find((c) => c.id === id);
+      if (!change) {
+        throw new Error(`Change not found: ${id}`);
+      }
+      await this.revert(change, force);
+      await this.save();
+      return change;
+    });
+  }
+
+  /**
+   * Revert the most recent change, optionally of one session
+   */
+  async undoLast(sessionId?: string, force = false): Promise<AgentChange> {
+    const change = (await this.list()).find(
+      (c) => !c.reverted && (sessionId === undefined || c.sessionId === sessionId)
+    );
+    if (!change) {
+      throw new Error(sessionId ? `No changes to undo in session ${sessionId}` : 'No changes to undo');
+    }
+    return this.undo(change.id, force);
+  }
+
+  /**
+   * Revert every change of a session, newest first. Stops at the first
+   * change that can't be reverted so earlier ones aren't undone out of order.
+   */
+  async undoSession(sessionId: string, force = false): Promise<{ reverted: AgentChange[]; error?: string }> {
+    return this.enqueue(async () => {
+      const index = await this.load();
+      const pending = index.changes.filter((c) => c.sessionId === sessionId && !c.reverted).reverse();
+      if (pending.length === 0) {
+        throw new Error(`No changes to undo in session ${sessionId}`);
+      }
+
+      const reverted: AgentChange[] = [];
+      let error: string | undefined;
+      for (const change of pending) {
+        try {
+          await this.revert(change, force);
+          reverted.push(change);
+        } catch (e) {
+          error = e instanceof Error ? e.message : String(e);
+          break;
+        }
+      }
+
+      await this.save();
+      return { reverted, error };
+    });
+  }
+
+  /**
+   * Listen for new or reverted changes; returns a function that stops listening
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Content of a file if a tracked tool call is running and it is
+   * snapshotted, else null
+   */
+  private async capture(path: string): Promise<string | null> {
+    if (!this.context.getStore() || !this.isEnabled()) {
+      return null;
+    }
+    const file = this.vault.getFile(path);
+    if (!file || !TEXT_EXTENSIONS.includes(file.extension.toLowerCase())) {
+      return null;
+    }
+    return this.vault.read(path);
+  }
+
+  /**
+   * Base64 of an attachment if a tracked tool call is running, else null
+   */
+  private async captureBinary(path: string): Promise<string | null> {
+    if (!this.context.getStore() || !this.isEnabled()) {
+      return null;
+    }
+    return Buffer.from(await this.vault.readBinary(path)).toString('base64');
+  }
+
+  private async record(
+    change: Pick<AgentChange, 'action' | 'path' | 'oldPath' | 'binary'>,
+    before: string | null,
+    after: string | null
+  ): Promise<void> {
+    const context = this.context.getStore();
+    if (!context || !this.isEnabled()) {
+      return;
+    }
+    // Nothing to restore for a non-text file
+    if (change.action !== 'create' && before === null) {
+      return;
+    }
+
+    const id = randomUUID();
+    context.recorded?.push(id);
+    await this.enqueue(async () => {
+      const index = await this.load();
+      const beforeHash = before === null ? null : await this.storeBlob(index, before);
+
+      index.changes.push({
+        id,
+        sessionId: context.sessionId,
+        clientId: context.clientId,
+        tool: context.tool,
+        ...change,
+        before: beforeHash,
+        after: hashOrNull(after),
+        timestamp: Date.now(),
+      });
+
+      await this.prune(index);
+      await this.save();
+    });
+  }
+
+  private async revert(change: AgentChange, force: boolean): Promise<void> {
+    if (change.reverted) {
+      throw new Error(`Already undone: ${change.action} ${change.path}`);
+    }
+
+    const current = !this.vault.getFile(change.path)
+      ? null
+      : change.binary
+        ? Buffer.from(await this.vault.readBinary(change.path)).toString('base64')
+        : await this.vault.read(change.path);
+    if (!force && hashOrNull(current) !== change.after) {
+      throw new Error(`${change.path} has changed since ${change.tool}; undo with force to overwrite it`);
+    }
+
+    const system = this.settings.trashLocation === 'system';
+    switch (change.action) {
+      case 'create':
+        if (current !== null) {
+          await this.vault.trash(change.path, system);
+        }
+        break;
+
+      case 'modify':
+      case 'delete': {
+        const content = await this.readBlob(change.before);
+        if (change.binary) {
+          await this.ensureParent(change.path);
+          const bytes = Buffer.from(content, 'base64');
+          await this.vault.writeBinary(change.path, bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length));
+        } else if (current !== null) {
+          await this.vault.modify(change.path, content);
+        } else {
+          await this.ensureParent(change.path);
+          await this.vault.create(change.path, content);
+        }
+        break;
+      }
+
+      case 'move':
+        if (this.vault.getFile(change.oldPath!)) {
+          throw new Error(`Can't move ${change.path} back: ${change.oldPath} exists`);
+        }
+        await this.ensureParent(change.oldPath!);
+        await this.vault.rename(change.path, change.oldPath!);
+        break;
+    }
+
+    change.reverted = true;
+  }
+
+  /**
+   * Drop the oldest changes until the stored copies fit the retention size
+   */
+  private async prune(index: SnapshotIndex): Promise<void> {
+    const limit = this.settings.snapshotRetentionMb * 1024 * 1024;
+    let total = Object.values(index.blobs).reduce((sum, size) => sum + size, 0);
+    if (total <= limit) {
+      return;
+    }
+
+    while (total > limit && index.changes.length > 1) {
+      index.changes.shift();
+      total -= await this.removeUnreferencedBlobs(index);
+    }
+  }
+
+  /**
+   * Delete stored copies no change refers to; returns the bytes freed
+   */
+  private async removeUnreferencedBlobs(index: SnapshotIndex): Promise<number> {
+    const referenced = new Set(index.changes.map((c) => c.before));
+    let freed = 0;
+    for (const hash of Object.keys(index.blobs)) {
+      if (!referenced.has(hash)) {
+        freed += index.blobs[hash];
+        delete index.blobs[hash];
+        await this.vault.removeConfigFile(`${BLOB_FOLDER}/${hash}`);
+      }
+    }
+    return freed;
+  }
+
+  private async storeBlob(index: SnapshotIndex, content: string): Promise<string> {
+    const hash = hashContent(content);
+    if (!(hash in index.blobs)) {
+      await this.vault.writeConfigFile(`${BLOB_FOLDER}/${hash}`, content);
+      index.blobs[hash] = Buffer.byteLength(content, 'utf8');
+    }
+    return hash;
+  }
+
+  private async readBlob(hash: string | null): Promise<string> {
+    const content = hash ? await this.vault.readConfigFile(`${BLOB_FOLDER}/${hash}`) : null;
+    if (content === null) {
+      throw new Error('The saved copy of this note is no longer available');
+    }
+    return content;
+  }
+
+  private async ensureParent(path: string): Promise<void> {
+    const missing: string[] = [];
+    for (let folder = parentFolder(path); folder && !this.vault.isFolder(folder); folder = parentFolder(folder)) {
+      missing.unshift(folder);
+    }
+    for (const folder of missing) {
+      await this.vault.createFolder(folder);
+    }
+  }
+
+  private isEnabled(): boolean {
+    return this.settings.snapshotRetentionMb > 0;
+  }
+
+  private async load(): Promise<SnapshotIndex> {
+    if (!this.index) {
+      const raw = await this.vault.readConfigFile(INDEX_FILE);
+      try {
+        const parsed = raw ? JSON.parse(raw) : null;
+        this.index = {
+          changes: Array.isArray(parsed?.changes) ? parsed.changes : [],
+          blobs: parsed?.blobs && typeof parsed.blobs === 'object' ? parsed.blobs : {},
+        };
+      } catch {
+        this.index = { changes: [], blobs: {} };
+      }
+    }
+    return this.index;
+  }
+
+  private async save(): Promise<void> {
+    if (this.index) {
+      await this.vault.writeConfigFile(INDEX_FILE, JSON.stringify(this.index));
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * One-line summary, e.g. "modify Inbox/Idea.md" or "move a.md → Archive/a.md"
+ */
+export function describeChange(change: AgentChange): string {
+  return change.action === 'move'
+    ? `move ${change.oldPath} → ${change.path}`
+    : `${change.action} ${change.path}`;
+}
+
+function hashOrNull(content: string | null): string | null {
+  return content === null ? null : hashContent(content);
+}
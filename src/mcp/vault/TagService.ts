@@ -0,0 +1,280 @@
+/**
+ * Tag inventory and bulk retagging
+ *
+ * Combines inline #tags from the metadata cache with frontmatter
+ * `tags:` (and legacy `tag:`), like Obsidian's getAllTags. Tags are
+ * compared case-insensitively; nested tags (#a/b) count toward parents.
+ */
+
+import type { VaultAccess } from './VaultAccess';
+import { splitFrontmatter } from './MarkdownParser';
+
+export interface TagNode {
+  /** Last path segment, e.g. "b" for #a/b */
+  name: string;
+  /** Full tag with '#', e.g. "#a/b" */
+  tag: string;
+  /** Notes tagged with exactly this tag */
+  count: number;
+  /** Notes tagged with this tag or any nested tag */
+  total: number;
+  children: TagNode[];
+}
+
+export interface RetagChange {
+  path: string;
+  /** Inline #tags rewritten in the body */
+  inline: number;
+  /** Whether the frontmatter tags property changes */
+  frontmatter: boolean;
+}
+
+const TAG_BODY = /^[\p{L}\p{N}_\-/]+$/u;
+const FRONTMATTER_TAG_KEYS = ['tags', 'tag'];
+
+/**
+ * Strip '#' and surrounding whitespace
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '');
+}
+
+/**
+ * Check a tag name (without '#') is valid in Obsidian
+ */
+export function isValidTag(tag: string): boolean {
+  return TAG_BODY.test(tag) && !/^\d+$/.test(tag) && !tag.startsWith('/') && !tag.endsWith('/');
+}
+
+export class TagService {
+  private vault: VaultAccess;
+
+  constructor(vault: VaultAccess) {
+    this.vault = vault;
+  }
+
+  /**
+   * Tags of a note without '#', inline and frontmatter, deduplicated
+   */
+  getNoteTags(path: string): string[] {
+    const cache = this.vault.getMetadata(path);
+    if (!cache) {
+      return [];
+    }
+
+    const tags = new Map<string, string>();
+    const add = (tag: string) => {
+      const name = normalizeTag(tag);
+      if (name && !tags.has(name.toLowerCase())) {
+        tags.set(name.toLowerCase(), name);
+      }
+    };
+
+    cache.tags.forEach((t) => add(t.tag));
+    for (const key of FRONTMATTER_TAG_KEYS) {
+      splitTagValue(cache.frontmatter?.[key]).forEach(add);
+    }
+    return Array.from(tags.values());
+  }
+
+  /**
+   * Every tag in the vault as a tree of nested tags
+   */
+  listTags(sort: 'count' | 'name' = 'count'): { total: number; tags: TagNode[] } {
+    const root: TagNode = { name: '', tag: '', count: 0, total: 0, children: [] };
+    const nodes = new Map<string, TagNode>();
+    // Notes counted toward each node's total, so a note tagged #a and #a/b counts once for #a
+    const totals = new Map<string, Set<string>>();
+
+    for (const file of this.vault.getMarkdownFiles()) {
+      for (const tag of this.getNoteTags(file.path)) {
+        const segments = tag.split('/');
+        let parent = root;
+        for (let i = 0; i < segments.length; i++) {
+          const key = segments.slice(0, i + 1).join('/').toLowerCase();
+          let node = nodes.get(key);
+          if (!node) {
+            node = { name: segments[i], tag: `#${segments.slice(0, i + 1).join('/')}`, count: 0, total: 0, children: [] };
+            nodes.set(key, node);
+            parent.children.push(node);
+          }
+          const notes = totals.get(key) || new Set();
+          notes.add(file.path);
+          totals.set(key, notes);
+          if (i === segments.length - 1) {
+            node.count++;
+          }
+          parent = node;
+        }
+      }
+    }
+
+    for (const [key, node] of nodes) {
+      node.total = totals.get(key)!.size;
+    }
+
+    const order = (a: TagNode, b: TagNode) =>
+      sort === 'name' ? a.tag.localeCompare(b.tag) : b.total - a.total || a.tag.localeCompare(b.tag);
+    const sortTree = (list: TagNode[]) => {
+      list.sort(order);
+      list.forEach((node) => sortTree(node.children));
+    };
+    sortTree(root.children);
+
+    return { total: nodes.size, tags: root.children };
+  }
+
+  /**
+   * Notes carrying a tag (and, optionally, its nested tags)
+   */
+  notesWithTag(tag: string, includeNested = true): Array<{ path: string; tags: string[] }> {
+    const wanted = normalizeTag(tag).toLowerCase();
+    const results: Array<{ path: string; tags: string[] }> = [];
+
+    for (const file of this.vault.getMarkdownFiles()) {
+      const matched = this.getNoteTags(file.path).filter((t) => matchesTag(t, wanted, includeNested));
+      if (matched.length > 0) {
+        results.push({ path: file.path, tags: matched.map((t) => `#${t}`) });
+      }
+    }
+
+    return results.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Work out which notes a rename of `from` to `to` would change.
+   * Nested tags move with their parent (#a/x becomes #b/x).
+   */
+  async planRetag(from: string, to: string): Promise<RetagChange[]> {
+    const changes: RetagChange[] = [];
+
+    for (const { path } of this.notesWithTag(from, true)) {
+      const content = await this.vault.read(path);
+      const { bodyStartLine } = splitFrontmatter(content);
+      const inline = renameInlineTags(content, bodyStartLine, from, to).count;
+      const frontmatter = this.vault.getMetadata(path)?.frontmatter;
+      const changesFrontmatter = FRONTMATTER_TAG_KEYS.some(
+        (key) => renameTagValue(frontmatter?.[key], from, to).changed
+      );
+
+      if (inline > 0 || changesFrontmatter) {
+        changes.push({ path, inline, frontmatter: changesFrontmatter });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Apply a planned retag, file by file
+   */
+  async applyRetag(changes: RetagChange[], from: string, to: string): Promise<void> {
+    for (const change of changes) {
+      if (change.inline > 0) {
+        const content = await this.vault.read(change.path);
+        const { bodyStartLine } = splitFrontmatter(content);
+        await this.vault.modify(change.path, renameInlineTags(content, bodyStartLine, from, to).content);
+      }
+
+      if (change.frontmatter) {
+        await this.vault.processFrontMatter(change.path, (frontmatter) => {
+          for (const key of FRONTMATTER_TAG_KEYS) {
+            const { value, changed } = renameTagValue(frontmatter[key], from, to);
+            if (changed) {
+              frontmatter[key] = value;
+            }
+          }
+        });
+      }
+    }
+  }
+}
+
+function matchesTag(tag: string, wanted: string, includeNested: boolean): boolean {
+  const lower = tag.toLowerCase();
+  return lower === wanted || (includeNested && lower.startsWith(wanted + '/'));
+}
+
+/**
+ * Rename a tag (or nested tag under it), keeping whatever follows
+ */
+function renameTag(tag: string, from: string, to: string): string | null {
+  const name = normalizeTag(tag);
+  const lowerFrom = from.toLowerCase();
+  const lower = name.toLowerCase();
+  if (lower === lowerFrom) return to;
+  if (lower.startsWith(lowerFrom + '/')) return to + name.substring(from.length);
+  return null;
+}
+
+/**
+ * Frontmatter tags may be a list or a comma/space separated string
+ */
+function splitTagValue(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((v) => typeof v === 'string' || typeof v === 'number').map(String);
+  }
+  if (typeof value === 'string') {
+    return value.split(/[,\s]+/).filter(Boolean);
+  }
+  return [];
+}
+
+function renameTagValue(value: unknown, from: string, to: string): { value: unknown; changed: boolean } {
+  const tags = splitTagValue(value);
+  let changed = false;
+  const renamed: string[] = [];
+
+  for (const tag of tags) {
+    const next = renameTag(tag, from, to);
+    const result = next === null ? tag : (tag.startsWith('#') ? '#' : '') + next;
+    changed = changed || next !== null;
+    // Merging into an existing tag must not leave duplicates
+    if (!renamed.some((t) => normalizeTag(t).toLowerCase() === normalizeTag(result).toLowerCase())) {
+      renamed.push(result);
+    }
+  }
+
+  if (!changed) {
+    return { value, changed: false };
+  }
+  return { value: typeof value === 'string' ? renamed.join(', ') : renamed, changed: true };
+}
+
+/**
+ * Rewrite inline #tags in the note body, skipping code blocks and inline code
+ */
+function renameInlineTags(
+  content: string,
+  bodyStartLine: number,
+  from: string,
+  to: string
+): { content: string; count: number } {
+  const lines = content.split('\n');
+  const pattern = /(^|\s)#([\p{L}\p{N}_\-/]+)/gu;
+  let count = 0;
+  let inCodeBlock = false;
+
+  for (let i = bodyStartLine; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) continue;
+
+    lines[i] = lines[i]
+      .split(/(`[^`]*`)/)
+      .map((segment, index) => {
+        if (index % 2 === 1) return segment;
+        return segment.replace(pattern, (match, lead: string, tag: string) => {
+          const next = renameTag(tag, from, to);
+          if (next === null) return match;
+          count++;
+          return `${lead}#${next}`;
+        });
+      })
+      .join('');
+  }
+
+  return { content: lines.join('\n'), count };
+}
@@ -0,0 +1,164 @@
+/**
+ * Note and folder templates from the vault's templates folder
+ *
+ * Uses the core Templates plugin folder (.obsidian/templates.json),
+ * falling back to "Templates". Each markdown file directly in the folder
+ * is a note template; each subfolder is a scaffold whose markdown files
+ * are all created together. Placeholders are filled in both file
+ * contents and file names, so a scaffold can contain "{{title}} Index.md".
+ */
+
+import type { VaultAccess } from './VaultAccess';
+import { renderTemplate, templateVariables, TemplateContext } from './TemplateRenderer';
+import { normalizeVaultPath } from '../../utils/vaultPath';
+
+export interface TemplateInfo {
+  name: string;
+  type: 'note' | 'folder';
+  /** Vault path of the template note or scaffold folder */
+  path: string;
+  /** Files created, relative to the destination (scaffolds only) */
+  files?: string[];
+  /** Caller-supplied variables the template uses */
+  variables: string[];
+}
+
+export interface TemplateOutput {
+  path: string;
+  content: string;
+}
+
+const DEFAULT_TEMPLATES_FOLDER = 'Templates';
+
+export class TemplateLibrary {
+  private vault: VaultAccess;
+
+  constructor(vault: VaultAccess) {
+    this.vault = vault;
+  }
+
+  /**
+   * Templates folder from the Templates plugin settings
+   */
+  async getFolder(): Promise<string> {
+    const settings = await this.readSettings();
+    const folder = typeof settings.folder === 'string' ? normalizeVaultPath(settings.folder) : '';
+    return folder || DEFAULT_TEMPLATES_FOLDER;
+  }
+
+  /**
+   * All note and folder templates, sorted by name
+   */
+  async list(): Promise<TemplateInfo[]> {
+    const folder = await this.getFolder();
+    const notes: string[] = [];
+    const scaffolds = new Map<string, string[]>();
+
+    for (const file of this.vault.getMarkdownFiles()) {
+      if (!file.path.startsWith(folder + '/')) continue;
+      const relative = file.path.substring(folder.length + 1);
+      const slash = relative.indexOf('/');
+      if (slash === -1) {
+        notes.push(file.path);
+      } else {
+        const name = relative.substring(0, slash);
+        scaffolds.set(name, [...(scaffolds.get(name) || []), relative.substring(slash + 1)]);
+      }
+    }
+
+    const templates: TemplateInfo[] = [];
+    for (const path of notes) {
+      templates.push({
+        name: path.substring(folder.length + 1).replace(/\.md$/i, ''),
+        type: 'note',
+        path,
+        variables: templateVariables(await this.vault.read(path)),
+      });
+    }
+    for (const [name, files] of scaffolds) {
+      const variables = new Set<string>();
+      for (const file of files) {
+        templateVariables(file).forEach((v) => variables.add(v));
+        templateVariables(await this.vault.read(`${folder}/${name}/${file}`)).forEach((v) => variables.add(v));
+      }
+      templates.push({ name, type: 'folder', path: `${folder}/${name}`, files: files.sort(), variables: Array.from(variables) });
+    }
+
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Look up a template by name (case-insensitive)
+   */
+  async get(name: string): Promise<TemplateInfo | null> {
+    const templates = await this.list();
+    return (
+      templates.find((t) => t.name === name) ||
+      templates.find((t) => t.name.toLowerCase() === name.toLowerCase()) ||
+      null
+    );
+  }
+
+  /**
+   * Render a template into the files it creates. For note templates
+   * `destination` is the note path; for scaffolds it is the folder the
+   * files go into. The title defaults to the destination's name.
+   */
+  async instantiate(
+    template: TemplateInfo,
+    destination: string,
+    options: { title?: string; variables?: Record<string, string>; date?: Date } = {}
+  ): Promise<TemplateOutput[]> {
+    let target = normalizeVaultPath(destination);
+    if (template.type === 'note' && !target.toLowerCase().endsWith('.md')) {
+      target += '.md';
+    }
+
+    const context = {
+      title: options.title || target.substring(target.lastIndexOf('/') + 1).replace(/\.md$/i, ''),
+      date: options.date || new Date(),
+      variables: options.variables,
+    };
+
+    if (template.type === 'note') {
+      return [{ path: target, content: await this.render(template.path, context) }];
+    }
+
+    const settings = await this.readSettings();
+    const outputs: TemplateOutput[] = [];
+    for (const file of template.files || []) {
+      const name = renderTemplate(file, { ...context, dateFormat: 'YYYY-MM-DD' });
+      outputs.push({
+        path: normalizeVaultPath(target ? `${target}/${name}` : name),
+        content: await this.render(`${template.path}/${file}`, context, settings),
+      });
+    }
+    return outputs;
+  }
+
+  /**
+   * Render a template note, using the Templates plugin date and time formats
+   */
+  async render(
+    path: string,
+    context: Omit<TemplateContext, 'dateFormat' | 'timeFormat'>,
+    settings?: Record<string, unknown>
+  ): Promise<string> {
+    const { dateFormat, timeFormat } = settings || (await this.readSettings());
+    return renderTemplate(await this.vault.read(path), {
+      ...context,
+      dateFormat: typeof dateFormat === 'string' ? dateFormat : undefined,
+      timeFormat: typeof timeFormat === 'string' ? timeFormat : undefined,
+    });
+  }
+
+  private async readSettings(): Promise<Record<string, unknown>> {
+    const raw = await this.vault.readConfigFile('templates.json');
+    try {
+      const parsed = raw ? JSON.parse(raw) : null;
+      return typeof parsed === 'object' && parsed !== null ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Template variable substitution
+ *
+ * Supports the core Templates plugin variables ({{title}}, {{date}},
+ * {{time}}, {{date:FORMAT}}, {{time:FORMAT}}), the Periodic Notes
+ * extras ({{yesterday}}, {{tomorrow}}, {{monday:FORMAT}} ...) and
+ * caller-supplied variables. Unknown placeholders are left untouched.
+ */
+
+import { addDays, formatDate } from '../../utils/dates';
+
+export interface TemplateContext {
+  title: string;
+  date: Date;
+  /** Format for {{date}}, from the Templates plugin settings */
+  dateFormat?: string;
+  /** Format for {{time}} */
+  timeFormat?: string;
+  /** Extra {{name}} values */
+  variables?: Record<string, string>;
+}
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_TIME_FORMAT = 'HH:mm';
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const BUILTIN_NAMES = ['title', 'date', 'time', 'yesterday', 'tomorrow', ...WEEKDAY_NAMES];
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)(?::([^}]*))?\s*\}\}/g;
+
+/**
+ * Fill in template placeholders
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  const dateFormat = context.dateFormat || DEFAULT_DATE_FORMAT;
+  const timeFormat = context.timeFormat || DEFAULT_TIME_FORMAT;
+  const variables = context.variables || {};
+
+  return template.replace(PLACEHOLDER_PATTERN, (match, rawName: string, format: string | undefined) => {
+    const name = rawName.toLowerCase();
+    const fmt = format?.trim();
+
+    if (rawName in variables) return variables[rawName];
+
+    switch (name) {
+      case 'title':
+        return context.title;
+      case 'date':
+        return formatDate(context.date, fmt || dateFormat);
+      case 'time':
+        return formatDate(new Date(), fmt || timeFormat);
+      case 'yesterday':
+        return formatDate(addDays(context.date, -1), fmt || dateFormat);
+      case 'tomorrow':
+        return formatDate(addDays(context.date, 1), fmt || dateFormat);
+    }
+
+    // {{monday:FORMAT}}: that day within the week of the note's date
+    const weekday = WEEKDAY_NAMES.indexOf(name);
+    if (weekday !== -1) {
+      return formatDate(addDays(context.date, weekday - context.date.getDay()), fmt || dateFormat);
+    }
+
+    return match;
+  });
+}
+
+/**
+ * Names of the caller-supplied variables a template uses, i.e. its
+ * placeholders other than the built-in ones
+ */
+export function templateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!BUILTIN_NAMES.includes(match[1].toLowerCase())) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
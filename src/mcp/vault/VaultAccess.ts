@@ -0,0 +1,115 @@
+/**
+ * Vault access abstraction
+ *
+ * Decouples the MCP server from Obsidian's App so the same tools can
+ * run inside the plugin or headless against a plain directory.
+ */
+
+import { NoteCache, VaultChangeEvent, VaultFile } from '../types';
+
+export interface VaultAccess {
+  /** Display name of the vault */
+  getName(): string;
+
+  /** Absolute path of the vault root on disk */
+  getBasePath(): string;
+
+  /** All markdown notes in the vault */
+  getMarkdownFiles(): VaultFile[];
+
+  /** All files in the vault, including attachments */
+  getFiles(): VaultFile[];
+
+  /** Look up a file by vault-relative path */
+  getFile(path: string): VaultFile | null;
+
+  /** Check whether a folder exists at the path */
+  isFolder(path: string): boolean;
+
+  /** Read a file as UTF-8 text */
+  read(path: string): Promise<string>;
+
+  /** Create a new file (fails if it already exists) */
+  create(path: string, content: string): Promise<void>;
+
+  /** Overwrite an existing file */
+  modify(path: string, content: string): Promise<void>;
+
+  /** Read a file as raw bytes, e.g. an image attachment */
+  readBinary(path: string): Promise<ArrayBuffer>;
+
+  /** Write raw bytes, creating the file or overwriting it */
+  writeBinary(path: string, data: ArrayBuffer): Promise<void>;
+
+  /** Create a folder (and missing parents) */
+  createFolder(path: string): Promise<void>;
+
+  /**
+   * Move or rename a file, updating links to it across the vault
+   * (and relative links inside it)
+   */
+  rename(path: string, newPath: string): Promise<void>;
+
+  /**
+   * Move a file or folder to the trash: the system trash, or the
+   * vault's .trash folder
+   */
+  trash(path: string, system: boolean): Promise<void>;
+
+  /**
+   * Permanently delete a file or empty folder. Only used to roll back
+   * files the server itself just created; user-facing deletes use trash.
+   */
+  delete(path: string): Promise<void>;
+
+  /**
+   * Resolved link counts per note, like metadataCache.resolvedLinks:
+   * source path -> target path -> number of links
+   */
+  getResolvedLinks(): Record<string, Record<string, number>>;
+
+  /**
+   * Links that don't resolve to any file, like metadataCache.unresolvedLinks:
+   * source path -> link text -> number of links
+   */
+  getUnresolvedLinks(): Record<string, Record<string, number>>;
+
+  /** Resolve a link as written in a note to a vault path, or null if unresolved */
+  resolveLink(link: string, sourcePath: string): string | null;
+
+  /**
+   * Atomically read, mutate and write a note's frontmatter. The callback
+   * edits the object in place; frontmatter is created if missing.
+   */
+  processFrontMatter(path: string, fn: (frontmatter: Record<string, unknown>) => void): Promise<void>;
+
+  /** Parsed frontmatter, tags, links and headings for a note */
+  getMetadata(path: string): NoteCache | null;
+
+  /**
+   * Read a hidden file at the vault root, e.g. ".aiignore". Returns null
+   * if it doesn't exist.
+   */
+  readRootFile(name: string): Promise<string | null>;
+
+  /**
+   * Read a file from the vault config folder (.obsidian), e.g.
+   * "daily-notes.json". Returns null if it doesn't exist.
+   */
+  readConfigFile(name: string): Promise<string | null>;
+
+  /** Write a file in the vault config folder, creating parent folders */
+  writeConfigFile(name: string, content: string): Promise<void>;
+
+  /** Append to a file in the vault config folder, creating it and its parent folders */
+  appendConfigFile(name: string, content: string): Promise<void>;
+
+  /** Delete a file from the vault config folder, if it exists */
+  removeConfigFile(name: string): Promise<void>;
+
+  /** Names of the files in a config subfolder ([] if it doesn't exist) */
+  listConfigFolder(name: string): Promise<string[]>;
+
+  /** Listen for file changes; returns a function that stops listening */
+  watch(listener: (event: VaultChangeEvent) => void): () => void;
+}
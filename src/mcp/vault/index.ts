@@ -0,0 +1,9 @@
+/**
+ * Vault access module exports
+ */
+
+export type { VaultAccess } from './VaultAccess';
+export { ObsidianVaultAccess } from './ObsidianVaultAccess';
+export { FileSystemVaultAccess } from './FileSystemVaultAccess';
+export { parseNoteCache, parseYaml, splitFrontmatter, stringifyYaml } from './MarkdownParser';
+export { getLinkpath, resolveLinkpath } from './LinkResolver';
@@ -0,0 +1,122 @@
+/**
+ * Obsidian CC headless vault server
+ *
+ * Standalone Node entrypoint bundled to vault-server.js. Runs the same
+ * MCP server and tools as the plugin against a vault directory, without
+ * Obsidian (Linux servers, CI):
+ *
+ *   node vault-server.js /path/to/vault [--port 3333] [--allow-writes]
+ *
+ * Options:
+ *   --port <n>        Port to listen on (default: plugin setting, then 3333)
+ *   --config <file>   Settings JSON (default: <vault>/.obsidian/plugins/obsidian-cc/data.json)
+ *   --allow-writes    Auto-approve write tools (there is no one to ask when headless)
+ *   --debug           Verbose logging
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MCPServer } from './mcp/MCPServer';
+import { FileSystemVaultAccess } from './mcp/vault/FileSystemVaultAccess';
+import { ObsidianCCSettings, DEFAULT_SETTINGS } from './settings/SettingsSchema';
+
+const USAGE = 'Usage: node vault-server.js <vault-dir> [--port <n>] [--config <file>] [--allow-writes] [--debug]';
+
+/**
+ * Read a "--name value" flag from argv
+ */
+function getFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  return value && !value.startsWith('--') ? value : '';
+}
+
+/**
+ * First positional argument (the vault directory)
+ */
+function getVaultDir(): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      // Skip the value of flags that take one
+      if (['--port', '--config'].includes(args[i])) i++;
+      continue;
+    }
+    return args[i];
+  }
+  return undefined;
+}
+
+/**
+ * Load plugin settings from the vault (if present) over the defaults
+ */
+function loadSettings(vaultDir: string): ObsidianCCSettings {
+  const configPath =
+    getFlag('config') || path.join(vaultDir, '.obsidian', 'plugins', 'obsidian-cc', 'data.json');
+
+  let saved: Partial<ObsidianCCSettings> = {};
+  if (fs.existsSync(configPath)) {
+    try {
+      saved = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error) {
+      console.error(`Ignoring unreadable settings file ${configPath}:`, error);
+    }
+  }
+
+  const settings: ObsidianCCSettings = Object.assign({}, DEFAULT_SETTINGS, saved);
+
+  const port = parseInt(getFlag('port') || '', 10);
+  if (!isNaN(port)) {
+    settings.mcpServerPort = port;
+  }
+  if (getFlag('debug') !== undefined) {
+    settings.debugMode = true;
+  }
+
+  return settings;
+}
+
+async function main(): Promise<void> {
+  if (getFlag('help') !== undefined) {
+    console.log(USAGE);
+    return;
+  }
+
+  const vaultDir = getVaultDir();
+  if (!vaultDir) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const resolved = path.resolve(vaultDir);
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+    console.error(`Vault directory not found: ${resolved}`);
+    process.exit(1);
+  }
+
+  const settings = loadSettings(resolved);
+  const allowWrites = getFlag('allow-writes') !== undefined;
+
+  const server = new MCPServer(new FileSystemVaultAccess(resolved), settings, (operation, respond) => {
+    if (!allowWrites) {
+      console.error(`Denied ${operation.tool} ${operation.path ?? ''} (start with --allow-writes to permit)`);
+    }
+    respond(allowWrites);
+  });
+
+  await server.start();
+  console.log(`Serving vault ${resolved}`);
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('Failed to start vault server:', error);
+  process.exit(1);
+});
@@ -15,6 +15,8 @@ export interface ObsidianCCSettings {
   autoUpdateClaudeMd: boolean;
   mcpServerEnabled: boolean;
   mcpServerPort: number;
+  mcpLegacyEndpoints: boolean;
+  mcpPromptsFolder: string;
 
   // @ Trigger Configuration
   inlineEnabled: boolean;
@@ -39,8 +41,31 @@ export interface ObsidianCCSettings {
   defaultClonePath: string;
 
   // Security Settings
+  mcpClients: MCPClient[];
   requireApproval: boolean;
+  approvalRules: ApprovalRule[];
   auditLogging: boolean;
+  auditMaxFileMb: number;
+  auditMaxFiles: number;
+  trashLocation: 'obsidian' | 'system';
+  snapshotRetentionMb: number;
+  /** What MCP tools may do with each file extension; unlisted extensions are denied */
+  fileTypePolicies: FileTypePolicy[];
+  /** Largest attachment read_attachment returns or write_attachment accepts */
+  attachmentMaxMb: number;
+  /** Notes with these tags (or nested tags) are hidden from AI */
+  aiExcludedTags: string[];
+  redactionEnabled: boolean;
+  /** Built-in detector IDs to apply (see REDACTION_DETECTORS) */
+  redactionDetectors: string[];
+  /** Extra regular expressions to redact */
+  redactionCustomPatterns: string[];
+  /** Folder globs redaction applies to; empty for the whole vault */
+  redactionFolders: string[];
+  /** Warn agents about prompt-injection-like content in notes they read */
+  injectionScanning: boolean;
+  /** Ask before every write in a session that read flagged content */
+  injectionForceApproval: boolean;
 
   // Advanced
   debugMode: boolean;
@@ -48,6 +73,48 @@ export interface ObsidianCCSettings {
   timeout: number;
 }
 
+/**
+ * Persistent approval decision for MCP write tools. When several rules
+ * match an operation, deny wins over ask, and ask over allow.
+ */
+export interface ApprovalRule {
+  id: string;
+  effect: 'allow' | 'deny' | 'ask';
+  /** Tool name, or '*' for every write tool */
+  tool: string;
+  /** Vault path glob, e.g. "Inbox/**" ('**' for everything) */
+  path: string;
+  /** MCP client ID, or '*' for any client */
+  client: string;
+}
+
+/**
+ * MCP access to files with one extension
+ */
+export interface FileTypePolicy {
+  /** Extension without the dot, e.g. "png" */
+  extension: string;
+  access: 'read' | 'write' | 'deny';
+}
+
+/**
+ * Named MCP client credential. The token itself is kept by
+ * KeychainService; settings only hold its hash.
+ */
+export interface MCPClient {
+  id: string;
+  /** Shown in approvals and the audit log; unique */
+  name: string;
+  scope: 'full' | 'read-only' | 'tasks-only' | 'search-only';
+  /** Folders the client can see; empty for the whole vault */
+  folders: string[];
+  /** SHA-256 of the bearer token */
+  tokenHash: string;
+  createdAt: number;
+  /** Epoch ms after which the token is rejected, or null for never */
+  expiresAt: number | null;
+}
+
 export const DEFAULT_SETTINGS: ObsidianCCSettings = {
   // Backend - default to SDK for agentic features
   agenticBackend: 'sdk',
@@ -60,6 +127,8 @@ export const DEFAULT_SETTINGS: ObsidianCCSettings = {
   autoUpdateClaudeMd: true,
   mcpServerEnabled: true,
   mcpServerPort: 3333,
+  mcpLegacyEndpoints: true,
+  mcpPromptsFolder: '',
 
   // @ Triggers - both enabled by default
   inlineEnabled: true,
@@ -85,7 +154,37 @@ export const DEFAULT_SETTINGS: ObsidianCCSettings = {
 
   // Security - conservative defaults
   requireApproval: true,
+  mcpClients: [],
+  approvalRules: [],
   auditLogging: false,
+  auditMaxFileMb: 5,
+  auditMaxFiles: 10,
+  trashLocation: 'obsidian',
+  snapshotRetentionMb: 50,
+  fileTypePolicies: [
+    { extension: 'md', access: 'write' },
+    { extension: 'txt', access: 'write' },
+    { extension: 'json', access: 'write' },
+    { extension: 'yaml', access: 'write' },
+    { extension: 'yml', access: 'write' },
+    { extension: 'csv', access: 'write' },
+    { extension: 'canvas', access: 'write' },
+    { extension: 'png', access: 'write' },
+    { extension: 'jpg', access: 'read' },
+    { extension: 'jpeg', access: 'read' },
+    { extension: 'gif', access: 'read' },
+    { extension: 'webp', access: 'read' },
+    { extension: 'svg', access: 'write' },
+    { extension: 'pdf', access: 'read' },
+  ],
+  attachmentMaxMb: 5,
+  aiExcludedTags: [],
+  redactionEnabled: false,
+  redactionDetectors: ['private-keys', 'api-keys', 'credit-cards', 'emails', 'phone-numbers'],
+  redactionCustomPatterns: [],
+  redactionFolders: [],
+  injectionScanning: true,
+  injectionForceApproval: false,
 
   // Advanced
   debugMode: false,
@@ -120,6 +219,42 @@ export const SEARCH_MODE_OPTIONS = [
   { value: 'keyword', label: 'Keyword Only (Fastest)' },
 ] as const;
 
+/**
+ * Where deleted notes go
+ */
+export const TRASH_LOCATION_OPTIONS = [
+  { value: 'obsidian', label: 'Obsidian trash (.trash folder)' },
+  { value: 'system', label: 'System trash' },
+] as const;
+
+/**
+ * File type access levels
+ */
+export const FILE_ACCESS_OPTIONS = [
+  { value: 'write', label: 'Read and write' },
+  { value: 'read', label: 'Read only' },
+  { value: 'deny', label: 'No access' },
+] as const;
+
+/**
+ * MCP client scopes
+ */
+export const CLIENT_SCOPE_OPTIONS = [
+  { value: 'full', label: 'Full access' },
+  { value: 'read-only', label: 'Read only' },
+  { value: 'tasks-only', label: 'Tasks only' },
+  { value: 'search-only', label: 'Search only' },
+] as const;
+
+/**
+ * Approval rule effects
+ */
+export const APPROVAL_RULE_EFFECT_OPTIONS = [
+  { value: 'allow', label: 'Always allow' },
+  { value: 'deny', label: 'Always deny' },
+  { value: 'ask', label: 'Always ask' },
+] as const;
+
 /**
  * Thinking animation options
  */
@@ -5,7 +5,18 @@ import {
   TASK_FORMAT_OPTIONS,
   SEARCH_MODE_OPTIONS,
   THINKING_ANIMATION_OPTIONS,
+  TRASH_LOCATION_OPTIONS,
+  APPROVAL_RULE_EFFECT_OPTIONS,
+  CLIENT_SCOPE_OPTIONS,
+  FILE_ACCESS_OPTIONS,
+  ApprovalRule,
+  FileTypePolicy,
+  MCPClient,
 } from './SettingsSchema';
+import { VIEW_TYPE_AUDIT_LOG } from '../ui/AuditLogView';
+import { DEFAULT_CLIENT_ID } from '../mcp/security/ClientAccess';
+import { REDACTION_DETECTORS } from '../core/security/Redactor';
+import { normalizeTag } from '../mcp/vault/TagService';
 
 /**
  * Settings tab for Obsidian CC
@@ -123,6 +134,65 @@ export class SettingsTab extends PluginSettingTab {
           });
       });
 
+    new Setting(containerEl)
+      .setName('Legacy REST endpoints')
+      .setDesc('Also serve GET /mcp/tools and POST /mcp/call for clients that predate JSON-RPC')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.mcpLegacyEndpoints)
+          .onChange(async (value) => {
+            this.plugin.settings.mcpLegacyEndpoints = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Prompts folder')
+      .setDesc('Notes in this folder are offered to MCP clients as prompts (leave empty to disable)')
+      .addText((text) => {
+        text
+          .setPlaceholder('Prompts')
+          .setValue(this.plugin.settings.mcpPromptsFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.mcpPromptsFolder = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // With named clients the bridge can't discover a token, so the config carries one
+    const clients = this.plugin.settings.mcpClients;
+    let desktopClientId = clients[0]?.id;
+    const desktopConfig = new Setting(containerEl)
+      .setName('Claude Desktop config')
+      .setDesc(
+        clients.length > 0
+          ? 'Copy an mcpServers entry that launches the stdio bridge (mcp-bridge.js) with the chosen client\'s token'
+          : 'Copy an mcpServers entry that launches the stdio bridge (mcp-bridge.js)'
+      );
+    if (clients.length > 0) {
+      desktopConfig.addDropdown((dropdown) => {
+        for (const client of clients) {
+          dropdown.addOption(client.id, client.name);
+        }
+        dropdown.setValue(desktopClientId).onChange((value) => {
+          desktopClientId = value;
+        });
+      });
+    }
+    desktopConfig.addButton((btn) => {
+      btn
+        .setButtonText('Copy')
+        .onClick(async () => {
+          const token = desktopClientId ? await this.plugin.keychainService.getClientToken(desktopClientId) : null;
+          await navigator.clipboard.writeText(this.getDesktopConfig(clients.length > 0, token));
+          new Notice(
+            clients.length > 0 && !token
+              ? 'Claude Desktop config copied; the client token is unavailable, so paste one in place of OBSIDIAN_CC_TOKEN'
+              : 'Claude Desktop config copied to clipboard'
+          );
+        });
+    });
+
     // Add button to manually update CLAUDE.md
     new Setting(containerEl)
       .setName('Update CLAUDE.md now')
@@ -467,9 +537,47 @@ export class SettingsTab extends PluginSettingTab {
           });
       });
 
+    this.renderAIExclusions(containerEl);
+    this.renderRedaction(containerEl);
+    this.renderInjectionScanning(containerEl);
+    this.renderMCPClients(containerEl);
+    this.renderApprovalRules(containerEl);
+    this.renderFileTypes(containerEl);
+
+    new Setting(containerEl)
+      .setName('Deleted notes')
+      .setDesc('Where notes deleted by AI tools are moved. Files are never removed permanently.')
+      .addDropdown((dropdown) => {
+        for (const option of TRASH_LOCATION_OPTIONS) {
+          dropdown.addOption(option.value, option.label);
+        }
+        dropdown
+          .setValue(this.plugin.settings.trashLocation)
+          .onChange(async (value: 'obsidian' | 'system') => {
+            this.plugin.settings.trashLocation = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Agent change history (MB)')
+      .setDesc('Space for copies of notes before AI tools change them, used by "Undo Last Agent Change". 0 turns history off.')
+      .addText((text) => {
+        text
+          .setPlaceholder('50')
+          .setValue(String(this.plugin.settings.snapshotRetentionMb))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.snapshotRetentionMb = num;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
     new Setting(containerEl)
       .setName('Audit logging')
-      .setDesc('Log all AI operations to console')
+      .setDesc('Record all AI operations in tamper-evident audit files in the plugin folder')
       .addToggle((toggle) => {
         toggle
           .setValue(this.plugin.settings.auditLogging)
@@ -477,6 +585,43 @@ export class SettingsTab extends PluginSettingTab {
             this.plugin.settings.auditLogging = value;
             await this.plugin.saveSettings();
           });
+      })
+      .addButton((btn) => {
+        btn.setButtonText('Open log').onClick(() => {
+          this.plugin.activateSidebarView(VIEW_TYPE_AUDIT_LOG);
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Audit file size (MB)')
+      .setDesc('Start a new audit file when the current one reaches this size')
+      .addText((text) => {
+        text
+          .setPlaceholder('5')
+          .setValue(String(this.plugin.settings.auditMaxFileMb))
+          .onChange(async (value) => {
+            const num = parseFloat(value);
+            if (!isNaN(num) && num > 0) {
+              this.plugin.settings.auditMaxFileMb = num;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Audit files kept')
+      .setDesc('Oldest audit files beyond this number are deleted')
+      .addText((text) => {
+        text
+          .setPlaceholder('10')
+          .setValue(String(this.plugin.settings.auditMaxFiles))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            if (!isNaN(num) && num > 0) {
+              this.plugin.settings.auditMaxFiles = num;
+              await this.plugin.saveSettings();
+            }
+          });
       });
 
     // Storage status info
@@ -493,6 +638,409 @@ export class SettingsTab extends PluginSettingTab {
     }
   }
 
+  /**
+   * Notes hidden from AI by .aiignore, frontmatter and tags
+   */
+  private renderAIExclusions(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'AI exclusions' });
+    containerEl.createEl('p', {
+      text: 'Notes matched by a .aiignore file in the vault root (gitignore syntax, e.g. Journal/), notes with "ai: false" in their frontmatter and notes with the tags below are never shown to MCP clients, @claude, Quick Ask or @cc.',
+      cls: 'setting-item-description',
+    });
+
+    new Setting(containerEl)
+      .setName('Excluded tags')
+      .setDesc('Comma-separated, e.g. private, health. Nested tags are excluded too.')
+      .addText((text) => {
+        text
+          .setPlaceholder('private')
+          .setValue(this.plugin.settings.aiExcludedTags.join(', '))
+          .onChange(async (value) => {
+            this.plugin.settings.aiExcludedTags = value
+              .split(',')
+              .map((tag) => normalizeTag(tag))
+              .filter(Boolean);
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  /**
+   * Secret and PII redaction for content sent to Claude
+   */
+  private renderRedaction(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Redaction' });
+    containerEl.createEl('p', {
+      text: 'Replace secrets and personal data with placeholders before note content is sent to Claude (@claude, Quick Ask) or returned by MCP read_note. @claude and Quick Ask answers get the originals put back.',
+      cls: 'setting-item-description',
+    });
+
+    new Setting(containerEl)
+      .setName('Redact content')
+      .setDesc('Use "Preview Redaction" from the command palette to see what a note would send')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.redactionEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.redactionEnabled = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    for (const detector of REDACTION_DETECTORS) {
+      new Setting(containerEl)
+        .setName(detector.label)
+        .addToggle((toggle) => {
+          toggle
+            .setValue(this.plugin.settings.redactionDetectors.includes(detector.id))
+            .onChange(async (value) => {
+              const others = this.plugin.settings.redactionDetectors.filter((id) => id !== detector.id);
+              this.plugin.settings.redactionDetectors = value ? [...others, detector.id] : others;
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName('Custom patterns')
+      .setDesc('Regular expressions to redact, one per line (e.g. EMP-\\d{6} for employee IDs)')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('EMP-\\d{6}')
+          .setValue(this.plugin.settings.redactionCustomPatterns.join('\n'))
+          .onChange(async (value) => {
+            const patterns = value.split('\n').map((line) => line.trim()).filter(Boolean);
+            const invalid = patterns.filter((pattern) => {
+              try {
+                new RegExp(pattern);
+                return false;
+              } catch {
+                return true;
+              }
+            });
+            text.inputEl.toggleClass('mcp-setting-invalid', invalid.length > 0);
+            if (invalid.length === 0) {
+              this.plugin.settings.redactionCustomPatterns = patterns;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Redacted folders')
+      .setDesc('Comma-separated folder globs to redact, e.g. Work/**, Clients/**. Leave empty for the whole vault.')
+      .addText((text) => {
+        text
+          .setPlaceholder('Whole vault')
+          .setValue(this.plugin.settings.redactionFolders.join(', '))
+          .onChange(async (value) => {
+            this.plugin.settings.redactionFolders = value.split(',').map((f) => f.trim()).filter(Boolean);
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  /**
+   * Prompt-injection warnings on content returned to MCP clients
+   */
+  private renderInjectionScanning(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Prompt injection' });
+
+    new Setting(containerEl)
+      .setName('Flag suspicious content')
+      .setDesc('Warn MCP clients when a note they read contains instruction-like text, hidden HTML or invisible Unicode')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.injectionScanning)
+          .onChange(async (value) => {
+            this.plugin.settings.injectionScanning = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Ask before writes after flagged reads')
+      .setDesc('Once a session has read flagged content, every write tool it calls needs your approval, even with approval off or an allow rule')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.injectionForceApproval)
+          .onChange(async (value) => {
+            this.plugin.settings.injectionForceApproval = value;
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  /**
+   * Approval rules list with an add-rule row
+   */
+  private renderApprovalRules(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Approval rules' });
+    containerEl.createEl('p', {
+      text: 'Always allow, deny or ask for MCP write tools by tool, path glob (e.g. Inbox/**) and client. Deny wins over ask, ask over allow. Use "*" for any tool or client.',
+      cls: 'setting-item-description',
+    });
+
+    const effectLabel = (effect: ApprovalRule['effect']) =>
+      APPROVAL_RULE_EFFECT_OPTIONS.find((option) => option.value === effect)?.label || effect;
+
+    for (const rule of this.plugin.settings.approvalRules) {
+      new Setting(containerEl)
+        .setName(`${effectLabel(rule.effect)}: ${rule.tool === '*' ? 'all write tools' : rule.tool}`)
+        .setDesc(`Path: ${rule.path} · Client: ${rule.client === '*' ? 'any' : rule.client}`)
+        .addExtraButton((btn) => {
+          btn
+            .setIcon('trash')
+            .setTooltip('Delete rule')
+            .onClick(async () => {
+              this.plugin.settings.approvalRules = this.plugin.settings.approvalRules.filter((r) => r.id !== rule.id);
+              await this.plugin.saveSettings();
+              this.display();
+            });
+        });
+    }
+
+    const draft: Omit<ApprovalRule, 'id'> = { effect: 'allow', tool: '*', path: '', client: '*' };
+    new Setting(containerEl)
+      .setName('Add rule')
+      .addDropdown((dropdown) => {
+        for (const option of APPROVAL_RULE_EFFECT_OPTIONS) {
+          dropdown.addOption(option.value, option.label);
+        }
+        dropdown.setValue(draft.effect).onChange((value: ApprovalRule['effect']) => {
+          draft.effect = value;
+        });
+      })
+      .addText((text) => {
+        text.setPlaceholder('Tool (* for all)').onChange((value) => {
+          draft.tool = value.trim() || '*';
+        });
+      })
+      .addText((text) => {
+        text.setPlaceholder('Path glob, e.g. Inbox/**').onChange((value) => {
+          draft.path = value.trim();
+        });
+      })
+      .addText((text) => {
+        text.setPlaceholder('Client (* for any)').onChange((value) => {
+          draft.client = value.trim() || '*';
+        });
+      })
+      .addButton((btn) => {
+        btn
+          .setButtonText('Add')
+          .onClick(async () => {
+            if (!draft.path) {
+              new Notice('Enter a path glob, or ** for every path');
+              return;
+            }
+            const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+            this.plugin.settings.approvalRules = [...this.plugin.settings.approvalRules, { ...draft, id }];
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+  }
+
+  /**
+   * Per-extension access for MCP tools, and the attachment size limit
+   */
+  private renderFileTypes(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'File types' });
+    containerEl.createEl('p', {
+      text: 'What MCP tools may do with each file extension. Extensions not listed are hidden from reads and writes. Images, PDFs and other attachments are read with read_attachment and saved with write_attachment.',
+      cls: 'setting-item-description',
+    });
+
+    const savePolicies = async (policies: FileTypePolicy[]) => {
+      this.plugin.settings.fileTypePolicies = policies;
+      await this.plugin.saveSettings();
+    };
+
+    for (const policy of this.plugin.settings.fileTypePolicies) {
+      new Setting(containerEl)
+        .setName(`.${policy.extension}`)
+        .addDropdown((dropdown) => {
+          for (const option of FILE_ACCESS_OPTIONS) {
+            dropdown.addOption(option.value, option.label);
+          }
+          dropdown.setValue(policy.access).onChange(async (value: FileTypePolicy['access']) => {
+            await savePolicies(
+              this.plugin.settings.fileTypePolicies.map((p) =>
+                p.extension === policy.extension ? { ...p, access: value } : p
+              )
+            );
+          });
+        })
+        .addExtraButton((btn) => {
+          btn
+            .setIcon('trash')
+            .setTooltip('Remove file type')
+            .onClick(async () => {
+              await savePolicies(this.plugin.settings.fileTypePolicies.filter((p) => p.extension !== policy.extension));
+              this.display();
+            });
+        });
+    }
+
+    const draft: FileTypePolicy = { extension: '', access: 'read' };
+    new Setting(containerEl)
+      .setName('Add file type')
+      .addText((text) => {
+        text.setPlaceholder('Extension, e.g. mp3').onChange((value) => {
+          draft.extension = value.trim().replace(/^\./, '').toLowerCase();
+        });
+      })
+      .addDropdown((dropdown) => {
+        for (const option of FILE_ACCESS_OPTIONS) {
+          dropdown.addOption(option.value, option.label);
+        }
+        dropdown.setValue(draft.access).onChange((value: FileTypePolicy['access']) => {
+          draft.access = value;
+        });
+      })
+      .addButton((btn) => {
+        btn
+          .setButtonText('Add')
+          .onClick(async () => {
+            if (!/^[a-z0-9]+$/.test(draft.extension)) {
+              new Notice('Enter an extension, e.g. mp3');
+              return;
+            }
+            if (this.plugin.settings.fileTypePolicies.some((p) => p.extension === draft.extension)) {
+              new Notice(`.${draft.extension} is already listed`);
+              return;
+            }
+            await savePolicies([...this.plugin.settings.fileTypePolicies, { ...draft }]);
+            this.display();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Attachment size limit (MB)')
+      .setDesc('Largest attachment read_attachment returns or write_attachment saves')
+      .addText((text) => {
+        text
+          .setPlaceholder('5')
+          .setValue(String(this.plugin.settings.attachmentMaxMb))
+          .onChange(async (value) => {
+            const num = parseFloat(value);
+            if (!isNaN(num) && num > 0) {
+              this.plugin.settings.attachmentMaxMb = num;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+  }
+
+  /**
+   * Named MCP clients with their scopes and an add-client row
+   */
+  private renderMCPClients(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'MCP clients' });
+    containerEl.createEl('p', {
+      text: 'Give each MCP client its own token, limited to a scope and optionally to folders. Once a client is added, the per-start token and /auth/token stop working.',
+      cls: 'setting-item-description',
+    });
+
+    const scopeLabel = (scope: MCPClient['scope']) =>
+      CLIENT_SCOPE_OPTIONS.find((option) => option.value === scope)?.label || scope;
+
+    for (const client of this.plugin.settings.mcpClients) {
+      const details = [
+        scopeLabel(client.scope),
+        client.folders.length > 0 ? client.folders.join(', ') : 'whole vault',
+        client.expiresAt === null
+          ? 'never expires'
+          : `${client.expiresAt < Date.now() ? 'expired' : 'expires'} ${new Date(client.expiresAt).toLocaleDateString()}`,
+      ];
+      new Setting(containerEl)
+        .setName(client.name)
+        .setDesc(details.join(' · '))
+        .addButton((btn) => {
+          btn.setButtonText('Copy token').onClick(async () => {
+            const token = await this.plugin.keychainService.getClientToken(client.id);
+            if (!token) {
+              new Notice('Token unavailable; revoke this client and add it again');
+              return;
+            }
+            await navigator.clipboard.writeText(token);
+            new Notice(`Token for ${client.name} copied to clipboard`);
+          });
+        })
+        .addExtraButton((btn) => {
+          btn
+            .setIcon('trash')
+            .setTooltip('Revoke client')
+            .onClick(async () => {
+              await this.plugin.revokeMCPClient(client.id);
+              new Notice(`Revoked ${client.name}`);
+              this.display();
+            });
+        });
+    }
+
+    const draft = { name: '', scope: 'full' as MCPClient['scope'], folders: '', expiresInDays: 0 };
+    new Setting(containerEl)
+      .setName('Add client')
+      .addText((text) => {
+        text.setPlaceholder('Name, e.g. claude-code').onChange((value) => {
+          draft.name = value.trim();
+        });
+      })
+      .addDropdown((dropdown) => {
+        for (const option of CLIENT_SCOPE_OPTIONS) {
+          dropdown.addOption(option.value, option.label);
+        }
+        dropdown.setValue(draft.scope).onChange((value: MCPClient['scope']) => {
+          draft.scope = value;
+        });
+      })
+      .addText((text) => {
+        text.setPlaceholder('Folders (comma-separated)').onChange((value) => {
+          draft.folders = value;
+        });
+      })
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('0', 'Never expires')
+          .addOption('30', '30 days')
+          .addOption('90', '90 days')
+          .addOption('365', '1 year')
+          .setValue('0')
+          .onChange((value) => {
+            draft.expiresInDays = parseInt(value, 10);
+          });
+      })
+      .addButton((btn) => {
+        btn
+          .setButtonText('Add')
+          .onClick(async () => {
+            if (!draft.name) {
+              new Notice('Enter a client name');
+              return;
+            }
+            const taken = [DEFAULT_CLIENT_ID, ...this.plugin.settings.mcpClients.map((c) => c.name)];
+            if (taken.some((name) => name.toLowerCase() === draft.name.toLowerCase())) {
+              new Notice(`A client named ${draft.name} already exists`);
+              return;
+            }
+            const token = await this.plugin.createMCPClient({
+              name: draft.name,
+              scope: draft.scope,
+              folders: draft.folders
+                .split(',')
+                .map((folder) => folder.trim().replace(/^\/+|\/+$/g, ''))
+                .filter((folder) => folder),
+              expiresAt: draft.expiresInDays > 0 ? Date.now() + draft.expiresInDays * 24 * 60 * 60 * 1000 : null,
+            });
+            await navigator.clipboard.writeText(token);
+            new Notice(`Client ${draft.name} added; its token was copied to the clipboard`);
+            this.display();
+          });
+      });
+  }
+
   /**
    * Advanced Section
    */
@@ -573,6 +1121,32 @@ export class SettingsTab extends PluginSettingTab {
       });
   }
 
+  /**
+   * Build the Claude Desktop mcpServers snippet for the stdio bridge
+   */
+  private getDesktopConfig(needsToken: boolean, token: string | null): string {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const vaultPath = (this.app.vault.adapter as any).basePath || '';
+    const pluginDir = this.plugin.manifest.dir || `${this.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+    const bridgePath = `${vaultPath}/${pluginDir}/mcp-bridge.js`;
+
+    return JSON.stringify(
+      {
+        mcpServers: {
+          obsidian: {
+            command: 'node',
+            args: [bridgePath],
+            ...(needsToken && {
+              env: { OBSIDIAN_CC_TOKEN: token || '<client token from Obsidian CC settings>' },
+            }),
+          },
+        },
+      },
+      null,
+      2
+    );
+  }
+
   /**
    * Get API key description with storage status
    */
@@ -0,0 +1,145 @@
+import { ItemView, Notice, WorkspaceLeaf } from 'obsidian';
+import { SnapshotStore, AgentChange, describeChange } from '../mcp/vault/SnapshotStore';
+
+export const VIEW_TYPE_AGENT_CHANGES = 'obsidian-cc-agent-changes';
+
+/**
+ * Agent Changes View
+ *
+ * Lists the notes MCP clients changed, grouped by session, with undo
+ * for a single change or a whole session.
+ */
+export class AgentChangesView extends ItemView {
+  private snapshots: SnapshotStore;
+  private unsubscribe: (() => void) | null = null;
+  /** Changes whose last undo failed because the note was edited since */
+  private conflicts: Set<string> = new Set();
+
+  constructor(leaf: WorkspaceLeaf, snapshots: SnapshotStore) {
+    super(leaf);
+    this.snapshots = snapshots;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_AGENT_CHANGES;
+  }
+
+  getDisplayText(): string {
+    return 'Agent changes';
+  }
+
+  getIcon(): string {
+    return 'history';
+  }
+
+  async onOpen(): Promise<void> {
+    this.unsubscribe = this.snapshots.onChange(() => this.render());
+    await this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private async render(): Promise<void> {
+    const changes = await this.snapshots.list();
+    const container = this.contentEl;
+    container.empty();
+    container.addClass('mcp-changes-view');
+
+    if (changes.length === 0) {
+      container.createEl('p', {
+        text: 'No agent changes recorded yet.',
+        cls: 'mcp-changes-empty',
+      });
+      return;
+    }
+
+    // Sessions in order of their latest change
+    const sessions = new Map<string, AgentChange[]>();
+    for (const change of changes) {
+      const key = change.sessionId || '';
+      sessions.set(key, [...(sessions.get(key) || []), change]);
+    }
+
+    for (const [sessionId, sessionChanges] of sessions) {
+      this.renderSession(container, sessionId, sessionChanges);
+    }
+  }
+
+  private renderSession(container: HTMLElement, sessionId: string, changes: AgentChange[]): void {
+    const group = container.createDiv({ cls: 'mcp-changes-session' });
+    const header = group.createDiv({ cls: 'mcp-changes-session-header' });
+
+    const title = header.createDiv({ cls: 'mcp-changes-session-title' });
+    title.createSpan({ text: sessionId ? `Session ${sessionId.substring(0, 8)}` : 'No session' });
+    const client = changes.find((c) => c.clientId)?.clientId;
+    title.createSpan({
+      text: `${client ? `${client} · ` : ''}${new Date(changes[0].timestamp).toLocaleString()}`,
+      cls: 'mcp-changes-meta',
+    });
+
+    const pending = changes.filter((c) => !c.reverted);
+    if (sessionId && pending.length > 1) {
+      const button = header.createEl('button', { text: 'Undo session' });
+      button.addEventListener('click', () => this.undoSession(sessionId));
+    }
+
+    const list = group.createEl('ul', { cls: 'mcp-changes-list' });
+    for (const change of changes) {
+      this.renderChange(list, change);
+    }
+  }
+
+  private renderChange(list: HTMLElement, change: AgentChange): void {
+    const item = list.createEl('li', { cls: 'mcp-change' });
+    if (change.reverted) {
+      item.addClass('is-reverted');
+    }
+
+    const label = item.createDiv({ cls: 'mcp-change-label' });
+    const link = label.createEl('a', { text: describeChange(change) });
+    link.addEventListener('click', () => this.app.workspace.openLinkText(change.path, '', false));
+    label.createDiv({
+      text: `${change.tool} · ${new Date(change.timestamp).toLocaleTimeString()}${change.reverted ? ' · undone' : ''}`,
+      cls: 'mcp-changes-meta',
+    });
+
+    if (change.reverted) {
+      return;
+    }
+
+    const force = this.conflicts.has(change.id);
+    const button = item.createEl('button', { text: force ? 'Undo anyway' : 'Undo' });
+    if (force) {
+      button.addClass('mod-warning');
+    }
+    button.addEventListener('click', () => this.undo(change, force));
+  }
+
+  private async undo(change: AgentChange, force: boolean): Promise<void> {
+    try {
+      await this.snapshots.undo(change.id, force);
+      this.conflicts.delete(change.id);
+      new Notice(`Undone: ${describeChange(change)}`);
+    } catch (error) {
+      this.conflicts.add(change.id);
+      new Notice(`Undo failed: ${error instanceof Error ? error.message : error}`);
+      await this.render();
+    }
+  }
+
+  private async undoSession(sessionId: string): Promise<void> {
+    try {
+      const result = await this.snapshots.undoSession(sessionId);
+      if (result.error) {
+        new Notice(`Undid ${result.reverted.length} change(s), then stopped: ${result.error}`);
+      } else {
+        new Notice(`Undid ${result.reverted.length} change(s)`);
+      }
+    } catch (error) {
+      new Notice(`Undo failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { App, Modal } from 'obsidian';
+import type { MCPOperation, OperationPreview } from '../mcp/types';
+import { createUnifiedDiff } from '../utils/diff';
+import { describeApprovalRule, suggestAllowRule } from '../mcp/security/ApprovalRules';
+import type { ApprovalRule } from '../settings/SettingsSchema';
+
+/**
+ * Modal for MCP approval requests
+ */
+export class ApprovalModal extends Modal {
+  private operation: MCPOperation;
+  private callback: (approved: boolean, editedContent?: string) => void;
+  private responded = false;
+  /** Proposed content, as edited in the modal */
+  private proposed: string | undefined;
+  private onAllowAlways?: (rule: Omit<ApprovalRule, 'id'>) => void;
+
+  constructor(
+    app: App,
+    operation: MCPOperation,
+    callback: (approved: boolean, editedContent?: string) => void,
+    onAllowAlways?: (rule: Omit<ApprovalRule, 'id'>) => void
+  ) {
+    super(app);
+    this.operation = operation;
+    this.callback = callback;
+    this.proposed = operation.preview?.after;
+    this.onAllowAlways = onAllowAlways;
+  }
+
+  /**
+   * Respond to approval request (prevents double callbacks)
+   */
+  private respond(approved: boolean): void {
+    if (this.responded) return;
+    this.responded = true;
+    const edited = approved && this.proposed !== this.operation.preview?.after;
+    this.callback(approved, edited ? this.proposed : undefined);
+    this.close();
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+
+    const destructive = !!this.operation.destructive;
+    if (destructive) {
+      this.modalEl.addClass('mcp-approval-destructive');
+    }
+
+    contentEl.createEl('h2', { text: destructive ? 'Confirm Deletion' : 'MCP Operation Approval' });
+
+    const toolName = this.operation.tool.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+
+    contentEl.createEl('p', {
+      text: `Claude Code is requesting permission to perform the following operation:`,
+    });
+
+    const detailsEl = contentEl.createEl('div', { cls: 'mcp-approval-details' });
+
+    detailsEl.createEl('div', {
+      cls: 'mcp-approval-row',
+      text: `Tool: ${toolName}`,
+    });
+
+    if (this.operation.path) {
+      detailsEl.createEl('div', {
+        cls: 'mcp-approval-row',
+        text: `Path: ${this.operation.path}`,
+      });
+    }
+
+    if (this.operation.destination) {
+      detailsEl.createEl('div', {
+        cls: 'mcp-approval-row',
+        text: `Destination: ${this.operation.destination}`,
+      });
+    }
+
+    if (this.operation.action) {
+      detailsEl.createEl('div', {
+        cls: 'mcp-approval-row',
+        text: `Action: ${this.operation.action}`,
+      });
+    }
+
+    if (this.operation.changes && this.operation.changes.length > 0) {
+      const changesEl = detailsEl.createEl('ul', { cls: 'mcp-approval-changes' });
+      for (const change of this.operation.changes) {
+        changesEl.createEl('li', { text: change });
+      }
+    }
+
+    if (this.operation.forceApproval) {
+      detailsEl.createEl('div', {
+        cls: 'mcp-approval-row mcp-approval-warning',
+        text: `⚠️ ${this.operation.forceApproval}`,
+      });
+    }
+
+    if (this.operation.preview) {
+      this.modalEl.addClass('mcp-approval-wide');
+      this.renderPreview(contentEl, this.operation.preview);
+    }
+
+    contentEl.createEl('p', {
+      text: 'Do you want to allow this operation?',
+      cls: 'mcp-approval-question',
+    });
+
+    // Buttons
+    const buttonContainer = contentEl.createEl('div', { cls: 'mcp-approval-buttons' });
+
+    const denyButton = buttonContainer.createEl('button', {
+      text: 'Deny',
+      cls: 'mod-warning',
+    });
+    denyButton.addEventListener('click', () => this.respond(false));
+
+    // Persist an allow rule for this tool in this folder
+    const rule = this.onAllowAlways ? suggestAllowRule(this.operation) : null;
+    if (rule) {
+      const alwaysButton = buttonContainer.createEl('button', {
+        text: `Always allow in ${rule.path}`,
+        attr: { title: describeApprovalRule(rule) },
+      });
+      alwaysButton.addEventListener('click', () => {
+        this.onAllowAlways!(rule);
+        this.respond(true);
+      });
+    }
+
+    const allowButton = buttonContainer.createEl('button', {
+      text: destructive ? 'Delete' : 'Allow',
+      cls: destructive ? 'mod-destructive' : 'mod-cta',
+    });
+    allowButton.addEventListener('click', () => this.respond(true));
+
+    // Focus allow button for quick approval; deletions default to Deny
+    (destructive ? denyButton : allowButton).focus();
+  }
+
+  /**
+   * Diff of current vs proposed content, with an optional editor
+   */
+  private renderPreview(containerEl: HTMLElement, preview: OperationPreview): void {
+    const headerEl = containerEl.createEl('div', { cls: 'mcp-approval-preview-header' });
+    headerEl.createEl('span', { text: 'Changes' });
+
+    const diffEl = containerEl.createEl('div', { cls: 'mcp-approval-diff' });
+    const renderDiff = () => this.renderDiff(diffEl, preview.before, this.proposed ?? preview.after);
+    renderDiff();
+
+    if (!preview.editable) {
+      return;
+    }
+
+    const editor = containerEl.createEl('textarea', { cls: 'mcp-approval-editor' });
+    editor.value = preview.after;
+    editor.hide();
+    editor.addEventListener('input', () => {
+      this.proposed = editor.value;
+      renderDiff();
+    });
+
+    const editButton = headerEl.createEl('button', { text: 'Edit', cls: 'mcp-approval-edit' });
+    editButton.addEventListener('click', () => {
+      const editing = !editor.isShown();
+      editor.toggle(editing);
+      editButton.setText(editing ? 'Hide editor' : 'Edit');
+      if (editing) {
+        editor.focus();
+      }
+    });
+  }
+
+  private renderDiff(diffEl: HTMLElement, before: string, after: string): void {
+    diffEl.empty();
+
+    // New content: every line is an addition
+    const lines = before === ''
+      ? after.split('\n').map((line) => '+' + line)
+      : createUnifiedDiff(before, after).split('\n').slice(2);
+
+    if (lines.length === 0 || (lines.length === 1 && lines[0] === '')) {
+      diffEl.createEl('div', { cls: 'mcp-diff-line mcp-diff-context', text: 'No changes' });
+      return;
+    }
+
+    for (const line of lines) {
+      const cls = line.startsWith('@@')
+        ? 'mcp-diff-hunk'
+        : line.startsWith('+')
+          ? 'mcp-diff-add'
+          : line.startsWith('-')
+            ? 'mcp-diff-remove'
+            : 'mcp-diff-context';
+      diffEl.createEl('div', { cls: `mcp-diff-line ${cls}`, text: line || ' ' });
+    }
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    // If modal closed without responding, deny by default
+    if (!this.responded) {
+      this.responded = true;
+      this.callback(false);
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { ItemView, Notice, WorkspaceLeaf } from 'obsidian';
+import { AuditLogger } from '../mcp/security/AuditLogger';
+import { AuditEntry } from '../mcp/types';
+
+export const VIEW_TYPE_AUDIT_LOG = 'obsidian-cc-audit-log';
+
+/** Rows rendered at once; filters narrow down older entries */
+const MAX_ROWS = 500;
+
+interface AuditFilters {
+  tool: string;
+  client: string;
+  path: string;
+  outcome: 'all' | 'success' | 'failure';
+}
+
+/**
+ * Audit Log View
+ *
+ * Browse the persisted MCP audit log with filters, check its hash chain
+ * and export the filtered entries as CSV or JSON.
+ */
+export class AuditLogView extends ItemView {
+  private auditLogger: AuditLogger;
+  private entries: AuditEntry[] = [];
+  private filters: AuditFilters = { tool: '', client: '', path: '', outcome: 'all' };
+  private tableEl: HTMLElement | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, auditLogger: AuditLogger) {
+    super(leaf);
+    this.auditLogger = auditLogger;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_AUDIT_LOG;
+  }
+
+  getDisplayText(): string {
+    return 'MCP audit log';
+  }
+
+  getIcon(): string {
+    return 'scroll-text';
+  }
+
+  async onOpen(): Promise<void> {
+    this.entries = await this.auditLogger.readLog();
+    this.unsubscribe = this.auditLogger.onEntry((entry) => {
+      this.entries.push(entry);
+      this.renderTable();
+    });
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private render(): void {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass('mcp-audit-view');
+
+    const toolbar = container.createDiv({ cls: 'mcp-audit-toolbar' });
+    this.renderFilters(toolbar);
+
+    const actions = toolbar.createDiv({ cls: 'mcp-audit-actions' });
+    actions.createEl('button', { text: 'Verify' }).addEventListener('click', () => this.verify());
+    actions.createEl('button', { text: 'Export CSV' }).addEventListener('click', () => this.export('csv'));
+    actions.createEl('button', { text: 'Export JSON' }).addEventListener('click', () => this.export('json'));
+
+    this.tableEl = container.createDiv({ cls: 'mcp-audit-table' });
+    this.renderTable();
+  }
+
+  private renderFilters(toolbar: HTMLElement): void {
+    const filters = toolbar.createDiv({ cls: 'mcp-audit-filters' });
+    const distinct = (values: Array<string | undefined>) =>
+      Array.from(new Set(values.filter((v): v is string => !!v))).sort();
+
+    const select = (label: string, options: string[], value: string, onChange: (value: string) => void) => {
+      const el = filters.createEl('select', { cls: 'dropdown' });
+      el.createEl('option', { text: label, value: '' });
+      for (const option of options) {
+        el.createEl('option', { text: option, value: option });
+      }
+      el.value = value;
+      el.addEventListener('change', () => {
+        onChange(el.value);
+        this.renderTable();
+      });
+    };
+
+    select('All tools', distinct(this.entries.map((e) => e.tool)), this.filters.tool, (v) => (this.filters.tool = v));
+    select('All clients', distinct(this.entries.map((e) => e.clientId)), this.filters.client, (v) => (this.filters.client = v));
+    select('Any outcome', ['success', 'failure'], this.filters.outcome === 'all' ? '' : this.filters.outcome, (v) => {
+      this.filters.outcome = (v || 'all') as AuditFilters['outcome'];
+    });
+
+    const path = filters.createEl('input', { type: 'text', placeholder: 'Path contains…' });
+    path.value = this.filters.path;
+    path.addEventListener('input', () => {
+      this.filters.path = path.value;
+      this.renderTable();
+    });
+  }
+
+  private renderTable(): void {
+    if (!this.tableEl) {
+      return;
+    }
+    this.tableEl.empty();
+
+    const matching = this.filtered();
+    if (matching.length === 0) {
+      this.tableEl.createEl('p', { text: 'No audit entries match.', cls: 'mcp-audit-empty' });
+      return;
+    }
+
+    const shown = matching.slice(-MAX_ROWS).reverse();
+    if (matching.length > shown.length) {
+      this.tableEl.createEl('p', {
+        text: `Showing the latest ${shown.length} of ${matching.length} entries.`,
+        cls: 'mcp-audit-empty',
+      });
+    }
+
+    const table = this.tableEl.createEl('table');
+    const head = table.createEl('thead').createEl('tr');
+    for (const column of ['Time', 'Event', 'Tool', 'Path', 'Client', 'Outcome']) {
+      head.createEl('th', { text: column });
+    }
+
+    const body = table.createEl('tbody');
+    for (const entry of shown) {
+      const row = body.createEl('tr', { cls: entry.success ? '' : 'mcp-audit-failure' });
+      row.createEl('td', { text: new Date(entry.timestamp).toLocaleString() });
+      row.createEl('td', { text: entry.type.replace('_', ' ') });
+      row.createEl('td', { text: entry.tool || '' });
+      row.createEl('td', { text: entry.path || '', cls: 'mcp-audit-path' });
+      row.createEl('td', { text: entry.clientId || '' });
+      const outcome = row.createEl('td', { text: entry.success ? 'ok' : 'failed' });
+      if (entry.error) {
+        outcome.setAttribute('title', entry.error);
+      }
+    }
+  }
+
+  private filtered(): AuditEntry[] {
+    const { tool, client, path, outcome } = this.filters;
+    const needle = path.trim().toLowerCase();
+    return this.entries.filter(
+      (entry) =>
+        (!tool || entry.tool === tool) &&
+        (!client || entry.clientId === client) &&
+        (!needle || (entry.path || '').toLowerCase().includes(needle)) &&
+        (outcome === 'all' || entry.success === (outcome === 'success'))
+    );
+  }
+
+  private async verify(): Promise<void> {
+    const result = await this.auditLogger.verifyLog();
+    new Notice(
+      result.valid
+        ? `Audit log intact (${result.entries} entries checked)`
+        : `Audit log tampered with: ${result.error}`
+    );
+  }
+
+  /**
+   * Write the filtered entries to a file in the vault root
+   */
+  private async export(format: 'csv' | 'json'): Promise<void> {
+    const entries = this.filtered();
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+    const name = `MCP audit log ${stamp}.${format}`;
+    try {
+      await this.app.vault.create(name, this.auditLogger.exportLogs(entries, format));
+      new Notice(`Exported ${entries.length} audit entries to ${name}`);
+    } catch (error) {
+      new Notice(`Export failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { App, Modal, Notice, MarkdownRenderer, Component } from 'obsidian';
 import { ClaudeAPI } from '../core/api/ClaudeAPI';
+import { Redactor } from '../core/security/Redactor';
+import { RedactionPreviewModal } from './RedactionPreviewModal';
 
 /**
  * Quick Ask Modal
@@ -13,11 +15,16 @@ export class QuickAskModal extends Modal {
   private submitBtn: HTMLButtonElement | null = null;
   private isLoading = false;
   private currentContext: string;
+  private redactor: Redactor;
+  /** Note the context comes from, for per-folder redaction */
+  private sourcePath: string | undefined;
 
-  constructor(app: App, claudeApi: ClaudeAPI, context: string = '') {
+  constructor(app: App, claudeApi: ClaudeAPI, redactor: Redactor, context: string = '', sourcePath?: string) {
     super(app);
     this.claudeApi = claudeApi;
+    this.redactor = redactor;
     this.currentContext = context;
+    this.sourcePath = sourcePath;
   }
 
   onOpen(): void {
@@ -33,6 +40,16 @@ export class QuickAskModal extends Modal {
     if (this.currentContext) {
       const contextBar = contentEl.createDiv({ cls: 'cc-quick-ask-context' });
       contextBar.createEl('span', { text: '📄 Using current note as context' });
+
+      const redacted = this.redactor.redact(this.currentContext, this.sourcePath);
+      if (redacted.redactions.length > 0) {
+        const count = redacted.redactions.length;
+        const link = contextBar.createEl('a', {
+          text: ` · 🔒 ${count} item${count === 1 ? '' : 's'} redacted`,
+          cls: 'cc-quick-ask-redacted',
+        });
+        link.addEventListener('click', () => new RedactionPreviewModal(this.app, redacted).open());
+      }
     }
 
     // Question input
@@ -98,10 +115,14 @@ export class QuickAskModal extends Modal {
         prompt = `Context from current note:\n\n${this.currentContext}\n\n---\n\nQuestion: ${question}`;
       }
 
-      const response = await this.claudeApi.complete(prompt, undefined, {
-        maxTokens: 2048,
-        temperature: 0.7,
-      });
+      // Secrets never leave the vault; placeholders in the answer are filled back in
+      const redacted = this.redactor.redact(prompt, this.sourcePath);
+      const response = this.redactor.restore(
+        await this.claudeApi.complete(redacted.text, undefined, {
+          maxTokens: 2048,
+          temperature: 0.7,
+        })
+      );
 
       // Render markdown response
       this.responseContainer.empty();
@@ -0,0 +1,56 @@
+import { App, Modal } from 'obsidian';
+import { REDACTION_DETECTORS, RedactionResult } from '../core/security/Redactor';
+
+/**
+ * Redaction Preview
+ *
+ * Shows what was replaced before content is sent to Claude, and the
+ * text Claude receives.
+ */
+export class RedactionPreviewModal extends Modal {
+  private result: RedactionResult;
+
+  constructor(app: App, result: RedactionResult) {
+    super(app);
+    this.result = result;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('mcp-redaction-modal');
+    contentEl.createEl('h2', { text: 'Redaction Preview' });
+
+    const { redactions } = this.result;
+    if (redactions.length === 0) {
+      contentEl.createEl('p', { text: 'Nothing would be redacted.' });
+    } else {
+      contentEl.createEl('p', {
+        text: `${redactions.length} item${redactions.length === 1 ? '' : 's'} replaced with placeholders:`,
+      });
+
+      const table = contentEl.createEl('table', { cls: 'mcp-redaction-table' });
+      const head = table.createEl('thead').createEl('tr');
+      for (const column of ['Type', 'Original', 'Sent as']) {
+        head.createEl('th', { text: column });
+      }
+      const body = table.createEl('tbody');
+      for (const redaction of redactions) {
+        const row = body.createEl('tr');
+        const detector = REDACTION_DETECTORS.find((d) => d.id === redaction.detector);
+        row.createEl('td', { text: detector?.label || 'Custom pattern' });
+        row.createEl('td', { text: redaction.original, cls: 'mcp-redaction-original' });
+        row.createEl('td', { text: redaction.placeholder, cls: 'mcp-redaction-placeholder' });
+      }
+    }
+
+    contentEl.createEl('h3', { text: 'Sent to Claude' });
+    contentEl.createEl('pre', { text: this.result.text, cls: 'mcp-redaction-text' });
+
+    const buttonRow = contentEl.createDiv({ cls: 'modal-button-container' });
+    buttonRow.createEl('button', { text: 'Close', cls: 'mod-cta' }).addEventListener('click', () => this.close());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
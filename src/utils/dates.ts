@@ -0,0 +1,230 @@
+/**
+ * Date helpers for periodic notes and templates
+ *
+ * formatDate implements the moment.js tokens used in Daily Notes,
+ * Periodic Notes and Templates formats, so file names match what
+ * Obsidian generates without depending on moment at runtime.
+ */
+
+export type Period = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Longest tokens first so "YYYY" wins over "YY"
+const FORMAT_TOKENS =
+  /\[([^\]]*)\]|YYYY|YY|Qo|Q|MMMM|MMM|MM|Mo|M|DDDD|DDD|Do|DD|D|dddd|ddd|dd|do|d|E|e|gggg|gg|GGGG|GG|wo|ww|w|Wo|WW|W|HH|H|hh|h|mm|m|ss|s|A|a|X|x/g;
+
+/**
+ * Format a date with moment.js tokens (locale weeks use the en-US
+ * convention: weeks start on Sunday, Jan 1 is in week 1)
+ */
+export function formatDate(date: Date, format: string): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const day = date.getDate();
+  const weekday = date.getDay();
+  const hours = date.getHours();
+
+  return format.replace(FORMAT_TOKENS, (token, literal: string | undefined) => {
+    if (literal !== undefined) return literal;
+
+    switch (token) {
+      case 'YYYY': return String(year);
+      case 'YY': return pad(year % 100);
+      case 'Q': return String(Math.floor(month / 3) + 1);
+      case 'Qo': return ordinal(Math.floor(month / 3) + 1);
+      case 'MMMM': return MONTHS[month];
+      case 'MMM': return MONTHS[month].slice(0, 3);
+      case 'MM': return pad(month + 1);
+      case 'Mo': return ordinal(month + 1);
+      case 'M': return String(month + 1);
+      case 'DDDD': return pad(dayOfYear(date), 3);
+      case 'DDD': return String(dayOfYear(date));
+      case 'DD': return pad(day);
+      case 'Do': return ordinal(day);
+      case 'D': return String(day);
+      case 'dddd': return WEEKDAYS[weekday];
+      case 'ddd': return WEEKDAYS[weekday].slice(0, 3);
+      case 'dd': return WEEKDAYS[weekday].slice(0, 2);
+      case 'do': return ordinal(weekday);
+      case 'd': return String(weekday);
+      case 'e': return String(weekday);
+      case 'E': return String(weekday === 0 ? 7 : weekday);
+      case 'gggg': return String(weekOfYear(date, 0, 6).year);
+      case 'gg': return pad(weekOfYear(date, 0, 6).year % 100);
+      case 'ww': return pad(weekOfYear(date, 0, 6).week);
+      case 'wo': return ordinal(weekOfYear(date, 0, 6).week);
+      case 'w': return String(weekOfYear(date, 0, 6).week);
+      case 'GGGG': return String(weekOfYear(date, 1, 4).year);
+      case 'GG': return pad(weekOfYear(date, 1, 4).year % 100);
+      case 'WW': return pad(weekOfYear(date, 1, 4).week);
+      case 'Wo': return ordinal(weekOfYear(date, 1, 4).week);
+      case 'W': return String(weekOfYear(date, 1, 4).week);
+      case 'HH': return pad(hours);
+      case 'H': return String(hours);
+      case 'hh': return pad(hours % 12 || 12);
+      case 'h': return String(hours % 12 || 12);
+      case 'mm': return pad(date.getMinutes());
+      case 'm': return String(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      case 's': return String(date.getSeconds());
+      case 'A': return hours < 12 ? 'AM' : 'PM';
+      case 'a': return hours < 12 ? 'am' : 'pm';
+      case 'X': return String(Math.floor(date.getTime() / 1000));
+      case 'x': return String(date.getTime());
+      default: return token;
+    }
+  });
+}
+
+/**
+ * Resolve a date expression relative to `now`:
+ * "today", "yesterday", "tomorrow", "YYYY-MM-DD", "3 days ago",
+ * "in 2 weeks", "last Monday", "next friday", "this week", "last month"
+ */
+export function resolveDate(input: string | undefined, now: Date = new Date()): Date {
+  const today = startOfDay(now);
+  const text = (input || 'today').trim().toLowerCase();
+
+  if (text === 'today' || text === 'now') return today;
+  if (text === 'yesterday') return addDays(today, -1);
+  if (text === 'tomorrow') return addDays(today, 1);
+
+  const iso = text.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, iso[3] ? Number(iso[3]) : 1);
+    if (date.getMonth() !== Number(iso[2]) - 1) {
+      throw new Error(`Invalid date: ${input}`);
+    }
+    return date;
+  }
+
+  const offset = text.match(/^(?:in\s+)?(\d+)\s+(day|week|month|year)s?(\s+ago)?$/);
+  if (offset && (text.startsWith('in ') || offset[3])) {
+    const amount = Number(offset[1]) * (offset[3] ? -1 : 1);
+    return shift(today, offset[2] as 'day' | 'week' | 'month' | 'year', amount);
+  }
+
+  const relative = text.match(/^(last|next|this)\s+(\w+)$/);
+  if (relative) {
+    const [, which, unit] = relative;
+    const weekday = WEEKDAYS.findIndex((name) => name.toLowerCase() === unit || name.slice(0, 3).toLowerCase() === unit);
+
+    if (weekday !== -1) {
+      if (which === 'this') {
+        // The named day within the current Monday-to-Sunday week
+        const monday = addDays(today, -((today.getDay() + 6) % 7));
+        return addDays(monday, (weekday + 6) % 7);
+      }
+      const direction = which === 'last' ? -1 : 1;
+      let date = addDays(today, direction);
+      while (date.getDay() !== weekday) {
+        date = addDays(date, direction);
+      }
+      return date;
+    }
+
+    if (['day', 'week', 'month', 'quarter', 'year'].includes(unit)) {
+      const amount = which === 'last' ? -1 : which === 'next' ? 1 : 0;
+      if (unit === 'quarter') return shift(today, 'month', amount * 3);
+      return shift(today, unit as 'day' | 'week' | 'month' | 'year', amount);
+    }
+  }
+
+  throw new Error(
+    `Unrecognized date "${input}". Use YYYY-MM-DD, today, yesterday, tomorrow, "last Monday", "3 days ago" or "next week".`
+  );
+}
+
+/**
+ * First day of the period containing a date. Weeks start on Monday when
+ * isoWeek is set, Sunday otherwise.
+ */
+export function startOfPeriod(date: Date, period: Period, isoWeek = false): Date {
+  const day = startOfDay(date);
+  switch (period) {
+    case 'daily':
+      return day;
+    case 'weekly':
+      return addDays(day, -((day.getDay() - (isoWeek ? 1 : 0) + 7) % 7));
+    case 'monthly':
+      return new Date(day.getFullYear(), day.getMonth(), 1);
+    case 'quarterly':
+      return new Date(day.getFullYear(), Math.floor(day.getMonth() / 3) * 3, 1);
+    case 'yearly':
+      return new Date(day.getFullYear(), 0, 1);
+  }
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function shift(date: Date, unit: 'day' | 'week' | 'month' | 'year', amount: number): Date {
+  switch (unit) {
+    case 'day':
+      return addDays(date, amount);
+    case 'week':
+      return addDays(date, amount * 7);
+    case 'month': {
+      // Clamp to the last day of the target month (Mar 31 - 1 month = Feb 28/29)
+      const target = new Date(date.getFullYear(), date.getMonth() + amount, 1);
+      const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+      target.setDate(Math.min(date.getDate(), lastDay));
+      return target;
+    }
+    case 'year':
+      return shift(date, 'month', amount * 12);
+  }
+}
+
+function dayOfYear(date: Date): number {
+  const start = new Date(date.getFullYear(), 0, 1);
+  return Math.round((startOfDay(date).getTime() - start.getTime()) / 86400000) + 1;
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+/**
+ * Week number and week-year, following moment's weekOfYear:
+ * dow is the first day of the week, doy - dow + 7 the January day
+ * that is always in week 1
+ */
+function weekOfYear(date: Date, dow: number, doy: number): { week: number; year: number } {
+  const year = date.getFullYear();
+  const offset = firstWeekOffset(year, dow, doy);
+  const week = Math.floor((dayOfYear(date) - offset - 1) / 7) + 1;
+
+  if (week < 1) {
+    return { week: week + weeksInYear(year - 1, dow, doy), year: year - 1 };
+  }
+  if (week > weeksInYear(year, dow, doy)) {
+    return { week: week - weeksInYear(year, dow, doy), year: year + 1 };
+  }
+  return { week, year };
+}
+
+function firstWeekOffset(year: number, dow: number, doy: number): number {
+  const fwd = 7 + dow - doy;
+  const fwdlw = (7 + new Date(year, 0, fwd).getDay() - dow) % 7;
+  return -fwdlw + fwd - 1;
+}
+
+function weeksInYear(year: number, dow: number, doy: number): number {
+  const daysInYear = new Date(year, 1, 29).getDate() === 29 ? 366 : 365;
+  return (daysInYear - firstWeekOffset(year, dow, doy) + firstWeekOffset(year + 1, dow, doy)) / 7;
+}
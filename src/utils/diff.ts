@@ -0,0 +1,150 @@
+/**
+ * Line-based diff utilities
+ *
+ * Produces unified diffs for tool responses and approval previews.
+ * Common leading and trailing lines are trimmed before running LCS,
+ * so localized edits to large notes stay cheap.
+ */
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+/**
+ * Above this many LCS cells the changed region is reported as a
+ * wholesale replacement instead of a minimal diff
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = a.slice(0, prefix).map((text) => ({ type: 'context', text }));
+  result.push(...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)));
+  result.push(...a.slice(a.length - suffix).map((text): DiffLine => ({ type: 'context', text })));
+  return result;
+}
+
+/**
+ * Render a unified diff with the given number of context lines.
+ * Returns an empty string when the texts are identical.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  path = 'note',
+  context = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const lines = diffLines(oldText, newText);
+  const output = [`--- a/${path}`, `+++ b/${path}`];
+
+  // Indexes of changed lines, grouped into hunks when their context overlaps
+  const changed = lines.map((line, i) => (line.type === 'context' ? -1 : i)).filter((i) => i !== -1);
+  let start = 0;
+  while (start < changed.length) {
+    let end = start;
+    while (end + 1 < changed.length && changed[end + 1] - changed[end] <= context * 2 + 1) {
+      end++;
+    }
+
+    const from = Math.max(0, changed[start] - context);
+    const to = Math.min(lines.length - 1, changed[end] + context);
+
+    // Line numbers of the hunk start in each file
+    let oldLine = 1;
+    let newLine = 1;
+    for (let i = 0; i < from; i++) {
+      if (lines[i].type !== 'add') oldLine++;
+      if (lines[i].type !== 'remove') newLine++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let i = from; i <= to; i++) {
+      const line = lines[i];
+      if (line.type === 'context') {
+        body.push(' ' + line.text);
+        oldCount++;
+        newCount++;
+      } else if (line.type === 'remove') {
+        body.push('-' + line.text);
+        oldCount++;
+      } else {
+        body.push('+' + line.text);
+        newCount++;
+      }
+    }
+
+    output.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+      ...body
+    );
+    start = end + 1;
+  }
+
+  return output.join('\n');
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text): DiffLine => ({ type: 'remove', text })),
+      ...b.map((text): DiffLine => ({ type: 'add', text })),
+    ];
+  }
+
+  // LCS lengths of suffixes: table[i][j] = LCS(a[i..], b[j..])
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'context', text: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      result.push({ type: 'remove', text: a[i++] });
+    } else {
+      result.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'remove', text: a[i++] });
+  while (j < b.length) result.push({ type: 'add', text: b[j++] });
+
+  return result;
+}
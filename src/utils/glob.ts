@@ -0,0 +1,67 @@
+/**
+ * Glob matching for vault paths
+ *
+ * Supports the gitignore-style subset people write for folders:
+ * "*" (within a path segment), "**" (any number of segments), "?",
+ * and "{a,b}" alternatives. Matching is case-insensitive, like
+ * Obsidian's file lookups on macOS and Windows.
+ */
+
+const cache = new Map<string, RegExp>();
+
+/**
+ * Compile a glob to a regular expression matching whole paths
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = cache.get(glob);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more folders; a trailing "**" matches everything below
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`, 'i');
+  cache.set(glob, regex);
+  return regex;
+}
+
+/**
+ * Check whether a vault path matches a glob. A glob naming a folder
+ * ("Inbox" or "Inbox/") also matches everything inside it.
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  const pattern = glob.trim().replace(/^\/+/, '');
+  if (!pattern) {
+    return false;
+  }
+  if (pattern.endsWith('/')) {
+    return globToRegExp(pattern.slice(0, -1)).test(path) || globToRegExp(pattern + '**').test(path);
+  }
+  return globToRegExp(pattern).test(path) || globToRegExp(pattern + '/**').test(path);
+}
@@ -0,0 +1,12 @@
+/**
+ * Content hashing for change detection
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * SHA-256 of a text, as hex
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
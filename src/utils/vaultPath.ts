@@ -0,0 +1,30 @@
+/**
+ * Vault path helpers that work with or without Obsidian loaded
+ *
+ * Mirrors Obsidian's normalizePath so the MCP server can run headless.
+ */
+
+/**
+ * Normalize a vault-relative path: unify separators, collapse
+ * duplicate slashes, trim leading/trailing slashes, NFC-normalize.
+ */
+export function normalizeVaultPath(path: string): string {
+  let normalized = path
+    .replace(/[\\/]+/g, '/')
+    .replace(/[\u00A0\u202F]/g, ' ')
+    .replace(/^\/+|\/+$/g, '');
+
+  if (normalized === '') {
+    normalized = '/';
+  }
+
+  return normalized.normalize('NFC');
+}
+
+/**
+ * Parent folder of a vault path ('' for the vault root)
+ */
+export function parentFolder(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.substring(0, index);
+}
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MCPServer } from '../../src/mcp/MCPServer';
+import { FileSystemVaultAccess } from '../../src/mcp/vault/FileSystemVaultAccess';
+import { DEFAULT_SETTINGS, MCPClient, ObsidianCCSettings } from '../../src/settings/SettingsSchema';
+import type { ToolResponse } from '../../src/mcp/types';
+import { hashContent } from '../../src/utils/hash';
+
+let vaultDir: string;
+
+function writeVaultFile(name: string, content: string): void {
+  const absolute = path.join(vaultDir, name);
+  fs.mkdirSync(path.dirname(absolute), { recursive: true });
+  fs.writeFileSync(absolute, content);
+}
+
+/** A server over the temp vault that approves everything */
+function createServer(overrides: Partial<ObsidianCCSettings> = {}) {
+  const server = new MCPServer(
+    new FileSystemVaultAccess(vaultDir),
+    { ...DEFAULT_SETTINGS, ...overrides },
+    (_operation, respond) => respond(true)
+  );
+  const executeTool = (server as unknown as {
+    executeTool(tool: string, args: Record<string, unknown>, sessionId?: string): Promise<ToolResponse>;
+  }).executeTool.bind(server);
+  return {
+    server,
+    call: async (tool: string, args: Record<string, unknown>, sessionId = 'session-1') => {
+      const response = await executeTool(tool, args, sessionId);
+      return { isError: !!response.isError, text: response.content[0].text! };
+    },
+  };
+}
+
+beforeEach(() => {
+  vaultDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-'));
+});
+
+afterEach(() => {
+  fs.rmSync(vaultDir, { recursive: true, force: true });
+});
+
+describe('frontmatter redaction', () => {
+  const SECRET = 'hunter2hunter2';
+
+  beforeEach(() => {
+    writeVaultFile('Inbox/Hello.md', `---\npassword: ${SECRET}\nstatus: draft\n---\nBody password: ${SECRET}\n`);
+  });
+
+  test('redacts key-anchored secrets in every tool that returns frontmatter', async () => {
+    const { call } = createServer({ redactionEnabled: true });
+    const responses = [
+      await call('get_frontmatter', { path: 'Inbox/Hello.md' }),
+      await call('read_note', { path: 'Inbox/Hello.md', includeMetadata: true }),
+      await call('query_by_property', { property: 'status', value: 'draft', includeFrontmatter: true }),
+      await call('update_frontmatter', { path: 'Inbox/Hello.md', set: { status: 'done' } }),
+    ];
+
+    for (const response of responses) {
+      expect(response.isError).toBe(false);
+      expect(response.text).not.toContain(SECRET);
+      expect(response.text).toMatch(/"password": "\[REDACTED-API-KEY-[0-9a-f]{8}\]"/);
+    }
+    expect(JSON.parse(responses[0].text).redacted).toBe(1);
+  });
+
+  test('returns frontmatter as is when redaction is off', async () => {
+    const { call } = createServer();
+    expect(JSON.parse((await call('get_frontmatter', { path: 'Inbox/Hello.md' })).text).frontmatter.password).toBe(SECRET);
+  });
+});
+
+describe('batch', () => {
+  test('a failed batch leaves nothing for undo to replay', async () => {
+    writeVaultFile('Inbox/Hello.md', 'before\n');
+    const { call } = createServer();
+    await call('write_note', { path: 'Inbox/Hello.md', content: 'after\n' });
+
+    const batch = await call('batch', {
+      operations: [
+        { type: 'write', path: 'New/A.md', content: 'new', mode: 'create' },
+        { type: 'write', path: 'Inbox/Hello.md', content: 'batch\n' },
+        { type: 'write', path: 'Missing.md', content: 'x', mode: 'append' },
+      ],
+    });
+    expect(batch.isError).toBe(true);
+    expect(batch.text).toContain('2 earlier step(s) rolled back');
+    expect(fs.existsSync(path.join(vaultDir, 'New/A.md'))).toBe(false);
+    expect(fs.readFileSync(path.join(vaultDir, 'Inbox/Hello.md'), 'utf8')).toBe('after\n');
+
+    // The newest change is still the write before the batch
+    const undo = await call('undo_last_change', {});
+    expect(undo.isError).toBe(false);
+    expect(undo.text).toContain('modify Inbox/Hello.md');
+    expect(fs.existsSync(path.join(vaultDir, 'New/A.md'))).toBe(false);
+    expect(fs.readFileSync(path.join(vaultDir, 'Inbox/Hello.md'), 'utf8')).toBe('before\n');
+    expect((await call('undo_last_change', {})).text).toContain('No changes to undo');
+  });
+});
+
+describe('HTTP sessions', () => {
+  const port = 38000 + Math.floor(Math.random() * 1000);
+  const client = (name: string): MCPClient => ({
+    id: name,
+    name,
+    scope: 'full',
+    folders: [],
+    tokenHash: hashContent(`token-${name}`),
+    createdAt: 0,
+    expiresAt: null,
+  });
+
+  const request = (name: string, method: string, headers: Record<string, string> = {}, body?: unknown) =>
+    fetch(`http://127.0.0.1:${port}/mcp`, {
+      method,
+      headers: { Authorization: `Bearer token-${name}`, 'Content-Type': 'application/json', ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const initialize = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1' } },
+  };
+
+  const openSession = async (name: string) => {
+    const init = await request(name, 'POST', {}, initialize);
+    const sessionId = init.headers.get('mcp-session-id')!;
+    expect(sessionId).toBeTruthy();
+    return sessionId;
+  };
+
+  test('only the client that opened a session can end it', async () => {
+    const { server } = createServer({ mcpServerPort: port, mcpClients: [client('alice'), client('bob')] });
+    await server.start();
+    try {
+      const sessionId = await openSession('alice');
+
+      expect((await request('bob', 'DELETE', { 'Mcp-Session-Id': sessionId })).status).toBe(404);
+      expect((await request('alice', 'DELETE', { 'Mcp-Session-Id': sessionId })).status).toBe(204);
+      expect((await request('alice', 'DELETE', { 'Mcp-Session-Id': sessionId })).status).toBe(404);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('answers batches with one response per request', async () => {
+    const { server } = createServer({ mcpServerPort: port, mcpClients: [client('alice')] });
+    await server.start();
+    try {
+      const sessionId = await openSession('alice');
+      const headers = { 'Mcp-Session-Id': sessionId };
+      const initialized = { jsonrpc: '2.0', method: 'notifications/initialized' };
+
+      const batch = await request('alice', 'POST', headers, [
+        initialized,
+        { jsonrpc: '2.0', id: 2, method: 'ping' },
+        { jsonrpc: '2.0', id: 3, method: 'ping' },
+      ]);
+      expect(batch.status).toBe(200);
+      expect(await batch.json()).toEqual([
+        { jsonrpc: '2.0', id: 2, result: {} },
+        { jsonrpc: '2.0', id: 3, result: {} },
+      ]);
+
+      const single = await request('alice', 'POST', headers, { jsonrpc: '2.0', id: 4, method: 'ping' });
+      expect(await single.json()).toEqual({ jsonrpc: '2.0', id: 4, result: {} });
+
+      const notifications = await request('alice', 'POST', headers, [initialized]);
+      expect(notifications.status).toBe(202);
+      expect(await notifications.text()).toBe('');
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('rejects empty batches and initialize inside a batch', async () => {
+    const { server } = createServer({ mcpServerPort: port, mcpClients: [client('alice')] });
+    await server.start();
+    try {
+      const sessionId = await openSession('alice');
+
+      const empty = await request('alice', 'POST', { 'Mcp-Session-Id': sessionId }, []);
+      expect(empty.status).toBe(400);
+      expect((await empty.json()).error.message).toBe('Empty batch');
+
+      const batched = await request('alice', 'POST', {}, [initialize, { jsonrpc: '2.0', id: 2, method: 'ping' }]);
+      expect(batched.status).toBe(400);
+      expect(batched.headers.get('mcp-session-id')).toBeNull();
+    } finally {
+      await server.stop();
+    }
+  });
+});
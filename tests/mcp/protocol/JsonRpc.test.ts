@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  ErrorCode,
+  LATEST_PROTOCOL_VERSION,
+  createError,
+  createNotification,
+  createResult,
+  isJsonRpcMessage,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  isJsonRpcResponse,
+  negotiateProtocolVersion,
+} from '../../../src/mcp/protocol/JsonRpc';
+
+describe('message classification', () => {
+  const request = { jsonrpc: '2.0', id: 1, method: 'ping' };
+  const notification = { jsonrpc: '2.0', method: 'notifications/initialized' };
+  const response = { jsonrpc: '2.0', id: 1, result: {} };
+
+  test('tells requests, notifications and responses apart', () => {
+    expect([isJsonRpcRequest(request), isJsonRpcNotification(request), isJsonRpcResponse(request)]).toEqual([true, false, false]);
+    expect([isJsonRpcRequest(notification), isJsonRpcNotification(notification), isJsonRpcResponse(notification)]).toEqual([
+      false,
+      true,
+      false,
+    ]);
+    expect([isJsonRpcRequest(response), isJsonRpcNotification(response), isJsonRpcResponse(response)]).toEqual([false, false, true]);
+    expect(isJsonRpcResponse({ jsonrpc: '2.0', id: null, error: { code: -1, message: 'x' } })).toBe(true);
+  });
+
+  test('rejects malformed messages', () => {
+    expect(isJsonRpcMessage({ ...request, jsonrpc: '1.0' })).toBe(false);
+    expect(isJsonRpcMessage({ jsonrpc: '2.0', id: {}, method: 'ping' })).toBe(false);
+    expect(isJsonRpcMessage({ jsonrpc: '2.0', id: 1 })).toBe(false);
+    expect(isJsonRpcMessage([request])).toBe(false);
+    expect(isJsonRpcMessage(null)).toBe(false);
+    expect(isJsonRpcRequest({ ...request, id: 'abc' })).toBe(true);
+  });
+});
+
+describe('message builders', () => {
+  test('build results, errors and notifications', () => {
+    expect(createResult(1, { ok: true })).toEqual({ jsonrpc: '2.0', id: 1, result: { ok: true } });
+    expect(createError(null, ErrorCode.ParseError, 'Parse error')).toEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32700, message: 'Parse error' },
+    });
+    expect(createError('a', ErrorCode.InvalidParams, 'Bad', { field: 'x' }).error.data).toEqual({ field: 'x' });
+    expect(createNotification('notifications/tools/list_changed')).toEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/tools/list_changed',
+    });
+    expect(createNotification('n', { uri: 'u' }).params).toEqual({ uri: 'u' });
+  });
+});
+
+describe('negotiateProtocolVersion', () => {
+  test('echoes a supported version and otherwise offers the latest', () => {
+    expect(negotiateProtocolVersion('2024-11-05')).toBe('2024-11-05');
+    expect(negotiateProtocolVersion('1999-01-01')).toBe(LATEST_PROTOCOL_VERSION);
+    expect(negotiateProtocolVersion(undefined)).toBe(LATEST_PROTOCOL_VERSION);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import type { ServerResponse } from 'http';
+import { SessionManager } from '../../../src/mcp/protocol/SessionManager';
+import { createNotification } from '../../../src/mcp/protocol/JsonRpc';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Records what is written to an SSE stream */
+function createStream() {
+  const stream = {
+    written: [] as string[],
+    ended: false,
+    onClose: undefined as (() => void) | undefined,
+    write(chunk: string) {
+      stream.written.push(chunk);
+      return true;
+    },
+    end() {
+      stream.ended = true;
+    },
+    on(event: string, listener: () => void) {
+      if (event === 'close') stream.onClose = listener;
+      return stream;
+    },
+  };
+  return stream;
+}
+
+function attach(manager: SessionManager, id: string) {
+  const stream = createStream();
+  manager.attachStream(id, stream as unknown as ServerResponse);
+  return stream;
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('sessions', () => {
+  test('creates sessions with unique ids', () => {
+    const manager = new SessionManager();
+    const a = manager.create('2025-03-26', { name: 'client', version: '1' });
+    const b = manager.create('2025-03-26');
+    expect(a.id).not.toBe(b.id);
+    expect(manager.get(a.id)).toBe(a);
+    expect(a.initialized).toBe(false);
+    expect(manager.list()).toHaveLength(2);
+  });
+
+  test('get() refreshes activity and expires idle sessions', () => {
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const manager = new SessionManager();
+    const session = manager.create('2025-03-26');
+
+    setSystemTime(new Date(Date.now() + DAY - 1000));
+    expect(manager.get(session.id)).toBe(session);
+
+    setSystemTime(new Date(Date.now() + DAY - 1000));
+    expect(manager.get(session.id)).toBe(session);
+
+    setSystemTime(new Date(Date.now() + DAY + 1000));
+    expect(manager.get(session.id)).toBeUndefined();
+  });
+
+  test('create() and list() prune expired sessions and close their streams', () => {
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const manager = new SessionManager();
+    const stale = manager.create('2025-03-26');
+    const stream = attach(manager, stale.id);
+
+    setSystemTime(new Date(Date.now() + DAY + 1000));
+    const fresh = manager.create('2025-03-26');
+    expect(manager.list().map((s) => s.id)).toEqual([fresh.id]);
+    expect(stream.ended).toBe(true);
+
+    setSystemTime(new Date(Date.now() + DAY + 1000));
+    expect(manager.list()).toEqual([]);
+  });
+
+  test('delete() ends streams and subscriptions', () => {
+    const manager = new SessionManager();
+    const session = manager.create('2025-03-26');
+    const stream = attach(manager, session.id);
+    manager.subscribe(session.id, 'obsidian://vault/a.md');
+
+    expect(manager.delete(session.id)).toBe(true);
+    expect(stream.ended).toBe(true);
+    expect(manager.getSubscribers('obsidian://vault/a.md')).toEqual([]);
+    expect(manager.delete(session.id)).toBe(false);
+  });
+
+  test('closeAll() ends every session', () => {
+    const manager = new SessionManager();
+    manager.create('2025-03-26');
+    manager.create('2025-03-26');
+    manager.closeAll();
+    expect(manager.list()).toEqual([]);
+  });
+});
+
+describe('notifications', () => {
+  test('notify() writes an SSE message to every open stream of the session', () => {
+    const manager = new SessionManager();
+    const session = manager.create('2025-03-26');
+    const other = manager.create('2025-03-26');
+    const streams = [attach(manager, session.id), attach(manager, session.id)];
+    const otherStream = attach(manager, other.id);
+
+    expect(manager.notify(session.id, createNotification('notifications/tools/list_changed'))).toBe(true);
+    for (const stream of streams) {
+      expect(stream.written).toEqual([
+        'event: message\ndata: {"jsonrpc":"2.0","method":"notifications/tools/list_changed"}\n\n',
+      ]);
+    }
+    expect(otherStream.written).toEqual([]);
+  });
+
+  test('notify() reports sessions without an open stream', () => {
+    const manager = new SessionManager();
+    const session = manager.create('2025-03-26');
+    expect(manager.notify(session.id, createNotification('n'))).toBe(false);
+
+    const stream = attach(manager, session.id);
+    stream.onClose!();
+    expect(manager.notify(session.id, createNotification('n'))).toBe(false);
+  });
+
+  test('broadcast() reaches every session', () => {
+    const manager = new SessionManager();
+    const streams = [manager.create('2025-03-26'), manager.create('2025-03-26')].map((s) => attach(manager, s.id));
+    manager.broadcast(createNotification('notifications/resources/list_changed'));
+    expect(streams.map((stream) => stream.written.length)).toEqual([1, 1]);
+  });
+
+  test('tracks resource subscriptions across renames', () => {
+    const manager = new SessionManager();
+    const a = manager.create('2025-03-26');
+    const b = manager.create('2025-03-26');
+    manager.subscribe(a.id, 'obsidian://vault/a.md');
+    manager.subscribe(b.id, 'obsidian://vault/a.md');
+    manager.unsubscribe(b.id, 'obsidian://vault/a.md');
+    expect(manager.getSubscribers('obsidian://vault/a.md')).toEqual([a.id]);
+
+    manager.renameSubscriptions('obsidian://vault/a.md', 'obsidian://vault/b.md');
+    expect(manager.getSubscribers('obsidian://vault/a.md')).toEqual([]);
+    expect(manager.getSubscribers('obsidian://vault/b.md')).toEqual([a.id]);
+  });
+});
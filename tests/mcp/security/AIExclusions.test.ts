@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AIExclusions } from '../../../src/mcp/security/AIExclusions';
+import { FileSystemVaultAccess } from '../../../src/mcp/vault/FileSystemVaultAccess';
+import { DEFAULT_SETTINGS, ObsidianCCSettings } from '../../../src/settings/SettingsSchema';
+
+let vaultDir: string;
+
+function writeVaultFile(name: string, content: string): void {
+  const absolute = path.join(vaultDir, name);
+  fs.mkdirSync(path.dirname(absolute), { recursive: true });
+  fs.writeFileSync(absolute, content);
+}
+
+async function loadExclusions(aiignore: string, overrides: Partial<ObsidianCCSettings> = {}): Promise<AIExclusions> {
+  writeVaultFile('.aiignore', aiignore);
+  const exclusions = new AIExclusions(new FileSystemVaultAccess(vaultDir), { ...DEFAULT_SETTINGS, ...overrides });
+  await exclusions.refresh(true);
+  return exclusions;
+}
+
+beforeEach(() => {
+  vaultDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aiignore-'));
+});
+
+afterEach(() => {
+  fs.rmSync(vaultDir, { recursive: true, force: true });
+});
+
+describe('.aiignore', () => {
+  test('a pattern without a slash matches at any depth', async () => {
+    const exclusions = await loadExclusions('secret.md\n*.key.md\n');
+    expect(exclusions.isExcluded('secret.md')).toBe(true);
+    expect(exclusions.isExcluded('a/b/secret.md')).toBe(true);
+    expect(exclusions.isExcluded('a/api.key.md')).toBe(true);
+    expect(exclusions.isExcluded('a/notsecret.md')).toBe(false);
+  });
+
+  test('a leading or inner slash anchors to the vault root', async () => {
+    const exclusions = await loadExclusions('/Journal\nWork/HR/\n');
+    expect(exclusions.isExcluded('Journal/2024-01-01.md')).toBe(true);
+    expect(exclusions.isExcluded('Archive/Journal/old.md')).toBe(false);
+    expect(exclusions.isExcluded('Work/HR/review.md')).toBe(true);
+    expect(exclusions.isExcluded('Old/Work/HR/review.md')).toBe(false);
+  });
+
+  test('a trailing slash matches the folder and everything in it', async () => {
+    const exclusions = await loadExclusions('private/\n');
+    expect(exclusions.isExcluded('private')).toBe(true);
+    expect(exclusions.isExcluded('notes/private/a.md')).toBe(true);
+  });
+
+  test('later negations re-include, and later rules win', async () => {
+    const exclusions = await loadExclusions('Private/**\n!Private/shared.md\nPrivate/shared.md\n!Private/ok.md\n');
+    expect(exclusions.isExcluded('Private/a.md')).toBe(true);
+    expect(exclusions.isExcluded('Private/shared.md')).toBe(true);
+    expect(exclusions.isExcluded('Private/ok.md')).toBe(false);
+  });
+
+  test('skips comments and blank lines and honours escapes', async () => {
+    const exclusions = await loadExclusions('# comment.md\n\n   \n\\#hash.md\n\\!bang.md\n');
+    expect(exclusions.isExcluded('comment.md')).toBe(false);
+    expect(exclusions.isExcluded('#hash.md')).toBe(true);
+    expect(exclusions.isExcluded('!bang.md')).toBe(true);
+  });
+
+  test('picks up changes on refresh', async () => {
+    const exclusions = await loadExclusions('a.md\n');
+    writeVaultFile('.aiignore', 'b.md\n');
+    await exclusions.refresh(true);
+    expect(exclusions.isExcluded('a.md')).toBe(false);
+    expect(exclusions.isExcluded('b.md')).toBe(true);
+  });
+});
+
+describe('note exclusions', () => {
+  test('excludes notes with ai: false in their frontmatter', async () => {
+    writeVaultFile('off.md', '---\nai: false\n---\nBody');
+    writeVaultFile('on.md', '---\nai: true\n---\nBody');
+    const exclusions = await loadExclusions('');
+    expect(exclusions.isExcluded('off.md')).toBe(true);
+    expect(exclusions.isExcluded('on.md')).toBe(false);
+  });
+
+  test('excludes notes with an excluded tag, including nested tags', async () => {
+    writeVaultFile('health.md', 'Checkup #private/health');
+    writeVaultFile('public.md', 'Hello #privateish');
+    const exclusions = await loadExclusions('', { aiExcludedTags: ['#Private'] });
+    expect(exclusions.isExcluded('health.md')).toBe(true);
+    expect(exclusions.isExcluded('public.md')).toBe(false);
+  });
+});
+
+describe('AIExclusions.wrap', () => {
+  test('hides excluded notes and refuses to read or write them', async () => {
+    writeVaultFile('Private/a.md', 'secret');
+    writeVaultFile('b.md', 'open');
+    const vault = new FileSystemVaultAccess(vaultDir);
+    const exclusions = await loadExclusions('Private/\n');
+    const wrapped = exclusions.wrap(vault);
+
+    expect(wrapped.getMarkdownFiles().map((file) => file.path)).toEqual(['b.md']);
+    expect(wrapped.getFile('Private/a.md')).toBeNull();
+    expect(wrapped.isFolder('Private')).toBe(false);
+    await expect(wrapped.read('Private/a.md')).rejects.toThrow('excluded from AI access');
+    await expect(wrapped.create('Private/new.md', 'x')).rejects.toThrow('excluded from AI access');
+    await expect(wrapped.rename('b.md', 'Private/b.md')).rejects.toThrow('excluded from AI access');
+    expect(await wrapped.read('b.md')).toBe('open');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { describeApprovalRule, findApprovalRule, suggestAllowRule } from '../../../src/mcp/security/ApprovalRules';
+import type { ApprovalRule } from '../../../src/settings/SettingsSchema';
+
+let nextId = 0;
+function rule(effect: ApprovalRule['effect'], path: string, tool = '*', client = '*'): ApprovalRule {
+  return { id: String(++nextId), effect, tool, path, client };
+}
+
+describe('findApprovalRule', () => {
+  test('returns null when no rule matches', () => {
+    expect(findApprovalRule([rule('allow', 'Inbox/**')], { tool: 'write_note', path: 'Projects/a.md' })).toBeNull();
+  });
+
+  test('deny wins over ask and ask over allow, whatever the order', () => {
+    const allow = rule('allow', 'Inbox/**');
+    const ask = rule('ask', 'Inbox/**');
+    const deny = rule('deny', 'Inbox/Private/**');
+    const operation = { tool: 'write_note', path: 'Inbox/Private/a.md' };
+
+    expect(findApprovalRule([allow, ask, deny], operation)).toBe(deny);
+    expect(findApprovalRule([deny, ask, allow], operation)).toBe(deny);
+    expect(findApprovalRule([allow, ask], { tool: 'write_note', path: 'Inbox/a.md' })).toBe(ask);
+  });
+
+  test('matches on tool and client', () => {
+    const forTool = rule('allow', '**', 'write_note');
+    const forClient = rule('allow', '**', '*', 'client-1');
+
+    expect(findApprovalRule([forTool], { tool: 'edit_note', path: 'a.md' })).toBeNull();
+    expect(findApprovalRule([forTool], { tool: 'write_note', path: 'a.md' })).toBe(forTool);
+    expect(findApprovalRule([forClient], { tool: 'write_note', path: 'a.md', clientId: 'client-2' })).toBeNull();
+    expect(findApprovalRule([forClient], { tool: 'write_note', path: 'a.md', clientId: 'client-1' })).toBe(forClient);
+  });
+
+  test('a catch-all allow does not cover destructive operations', () => {
+    const catchAll = rule('allow', '**');
+    const named = rule('allow', '**', 'delete_note');
+    const operation = { tool: 'delete_note', path: 'a.md', destructive: true };
+
+    expect(findApprovalRule([catchAll], operation)).toBeNull();
+    expect(findApprovalRule([catchAll, named], operation)).toBe(named);
+  });
+
+  test('allow needs every touched path covered; deny needs any', () => {
+    const move = { tool: 'move_note', path: 'Inbox/a.md', destination: 'Archive/a.md' };
+
+    expect(findApprovalRule([rule('allow', 'Inbox/**')], move)).toBeNull();
+    expect(findApprovalRule([rule('deny', 'Archive/**')], move)?.effect).toBe('deny');
+    expect(findApprovalRule([rule('allow', '{Inbox,Archive}/**')], move)?.effect).toBe('allow');
+  });
+
+  test('a path glob does not match operations without paths', () => {
+    expect(findApprovalRule([rule('allow', 'Inbox/**')], { tool: 'batch' })).toBeNull();
+    expect(findApprovalRule([rule('allow', '**')], { tool: 'batch' })?.effect).toBe('allow');
+  });
+});
+
+describe('suggestAllowRule', () => {
+  test('allows the tool in the folder of the path for the client', () => {
+    expect(suggestAllowRule({ tool: 'write_note', path: 'Inbox/Ideas/a.md', clientId: 'c1' })).toEqual({
+      effect: 'allow',
+      tool: 'write_note',
+      path: 'Inbox/Ideas/**',
+      client: 'c1',
+    });
+    expect(suggestAllowRule({ tool: 'write_note', path: 'a.md' })?.path).toBe('a.md');
+  });
+
+  test('suggests nothing for destructive or pathless operations', () => {
+    expect(suggestAllowRule({ tool: 'delete_note', path: 'a.md', destructive: true })).toBeNull();
+    expect(suggestAllowRule({ tool: 'batch' })).toBeNull();
+  });
+});
+
+describe('describeApprovalRule', () => {
+  test('names wildcards in words', () => {
+    expect(describeApprovalRule({ effect: 'allow', tool: '*', path: 'Inbox/**', client: '*' })).toBe(
+      'allow all write tools in Inbox/** for any client'
+    );
+  });
+});
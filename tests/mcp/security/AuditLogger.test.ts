@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger } from '../../../src/mcp/security/AuditLogger';
+import { FileSystemVaultAccess } from '../../../src/mcp/vault/FileSystemVaultAccess';
+import { DEFAULT_SETTINGS, ObsidianCCSettings } from '../../../src/settings/SettingsSchema';
+
+let vaultDir: string;
+let auditDir: string;
+
+function createLogger(overrides: Partial<ObsidianCCSettings> = {}): AuditLogger {
+  const settings = { ...DEFAULT_SETTINGS, auditLogging: true, ...overrides };
+  return new AuditLogger(settings, new FileSystemVaultAccess(vaultDir));
+}
+
+function rewriteActiveFile(edit: (lines: string[]) => string[]): void {
+  const file = path.join(auditDir, 'audit.jsonl');
+  const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+  fs.writeFileSync(file, edit(lines).join('\n') + '\n');
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+beforeEach(() => {
+  vaultDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+  auditDir = path.join(vaultDir, '.obsidian', 'plugins', 'obsidian-cc', 'audit');
+});
+
+afterEach(() => {
+  fs.rmSync(vaultDir, { recursive: true, force: true });
+});
+
+describe('AuditLogger', () => {
+  test('chains each entry to the one before it', async () => {
+    const logger = createLogger();
+    logger.logToolCall('write_note', 'a.md', true);
+    logger.logToolCall('edit_note', 'b.md', false, 'Note not found');
+    logger.logResourceRead('c.md', true);
+
+    const entries = await logger.readLog();
+    expect(entries.map((entry) => entry.tool ?? entry.type)).toEqual(['write_note', 'edit_note', 'resource_read']);
+    expect(entries[0].prevHash).toBe('0'.repeat(64));
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect(entries[2].prevHash).toBe(entries[1].hash);
+    expect(await logger.verifyLog()).toEqual({ valid: true, entries: 3 });
+  });
+
+  test('continues the chain after a restart', async () => {
+    const first = createLogger();
+    first.logToolCall('write_note', 'a.md', true);
+    await first.verifyLog();
+
+    const second = createLogger();
+    second.logToolCall('write_note', 'b.md', true);
+    const entries = await second.readLog();
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect((await second.verifyLog()).valid).toBe(true);
+  });
+
+  test('detects an edited entry', async () => {
+    const logger = createLogger();
+    logger.logToolCall('write_note', 'a.md', true);
+    logger.logToolCall('write_note', 'b.md', true);
+    await logger.verifyLog();
+
+    rewriteActiveFile((lines) => [lines[0].replace('a.md', 'z.md'), lines[1]]);
+    const result = await logger.verifyLog();
+    expect(result.valid).toBe(false);
+    expect(result.entries).toBe(0);
+    expect(result.error).toBe('audit.jsonl line 1 was modified');
+  });
+
+  test('detects a removed entry', async () => {
+    const logger = createLogger();
+    for (const note of ['a.md', 'b.md', 'c.md']) {
+      logger.logToolCall('write_note', note, true);
+    }
+    await logger.verifyLog();
+
+    rewriteActiveFile((lines) => [lines[0], lines[2]]);
+    const result = await logger.verifyLog();
+    expect(result).toEqual({ valid: false, entries: 1, error: 'audit.jsonl line 2 does not follow the previous entry' });
+  });
+
+  test('detects a line that is not JSON', async () => {
+    const logger = createLogger();
+    logger.logToolCall('write_note', 'a.md', true);
+    await logger.verifyLog();
+
+    rewriteActiveFile((lines) => [...lines, '{oops']);
+    expect((await logger.verifyLog()).error).toBe('audit.jsonl line 2 is not valid JSON');
+  });
+
+  test('rotates by size, keeps the newest files and the chain across them', async () => {
+    // Room for about two entries per file
+    const logger = createLogger({ auditMaxFileMb: 500 / (1024 * 1024), auditMaxFiles: 3 });
+    for (let i = 0; i < 10; i++) {
+      logger.logToolCall('write_note', `note-${i}.md`, true);
+      await logger.readLog();
+      // Rotated files are named by timestamp
+      await sleep(2);
+    }
+
+    const files = fs.readdirSync(auditDir);
+    expect(files).toHaveLength(3);
+    expect(files).toContain('audit.jsonl');
+
+    const result = await logger.verifyLog();
+    expect(result.valid).toBe(true);
+    expect(result.entries).toBeLessThan(10);
+    const entries = await logger.readLog();
+    expect(entries[entries.length - 1].path).toBe('note-9.md');
+  });
+
+  test('writes nothing while audit logging is off', async () => {
+    const logger = createLogger({ auditLogging: false });
+    logger.logToolCall('write_note', 'a.md', true);
+    expect(await logger.readLog()).toEqual([]);
+    expect(fs.existsSync(auditDir)).toBe(false);
+  });
+
+  test('exports CSV with quoted fields', () => {
+    const logger = createLogger();
+    const csv = logger.exportLogs(
+      [{ timestamp: 't', type: 'tool_call', tool: 'edit_note', path: 'a, b.md', success: false, error: 'said "no"' }],
+      'csv'
+    );
+    expect(csv).toBe(
+      'timestamp,type,tool,path,clientId,success,error,details,hash\n' +
+        't,tool_call,edit_note,"a, b.md",,false,"said ""no""",,\n'
+    );
+  });
+
+  test('exports CSV with formula-like cells defused', () => {
+    const logger = createLogger();
+    const csv = logger.exportLogs(
+      [
+        { timestamp: 't', type: 'tool_call', tool: '@SUM(A1)', path: '=1+1', clientId: '+1', success: true, error: '-2' },
+        { timestamp: 't', type: 'tool_call', path: '\tx.md', success: true, error: '\rcmd' },
+        { timestamp: 't', type: 'tool_call', path: '=HYPERLINK("http://evil","x")', success: true },
+      ],
+      'csv'
+    );
+    expect(csv.split('\n').slice(1, 4)).toEqual([
+      "t,tool_call,'@SUM(A1),'=1+1,'+1,true,'-2,,",
+      "t,tool_call,,'\tx.md,,true,\"'\rcmd\",,",
+      't,tool_call,,"\'=HYPERLINK(""http://evil"",""x"")",,true,,,',
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClientAccess } from '../../../src/mcp/security/ClientAccess';
+import { FileSystemVaultAccess } from '../../../src/mcp/vault/FileSystemVaultAccess';
+import { DEFAULT_SETTINGS, MCPClient } from '../../../src/settings/SettingsSchema';
+import { hashContent } from '../../../src/utils/hash';
+
+let vaultDir: string;
+
+function writeVaultFile(name: string, content: string): void {
+  const absolute = path.join(vaultDir, name);
+  fs.mkdirSync(path.dirname(absolute), { recursive: true });
+  fs.writeFileSync(absolute, content);
+}
+
+function createClient(name: string, overrides: Partial<MCPClient> = {}): MCPClient {
+  return {
+    id: name,
+    name,
+    scope: 'full',
+    folders: [],
+    tokenHash: hashContent(`token-${name}`),
+    createdAt: 0,
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+function createAccess(clients: MCPClient[]): ClientAccess {
+  return new ClientAccess({ ...DEFAULT_SETTINGS, mcpClients: clients });
+}
+
+beforeEach(() => {
+  vaultDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clients-'));
+  writeVaultFile('Projects/plan.md', 'plan');
+  writeVaultFile('Private/diary.md', 'diary');
+});
+
+afterEach(() => {
+  fs.rmSync(vaultDir, { recursive: true, force: true });
+});
+
+describe('authenticate', () => {
+  test('finds the client a token belongs to', () => {
+    const alice = createClient('alice');
+    const access = createAccess([alice, createClient('bob')]);
+    expect(access.authenticate('token-alice')).toEqual({ client: alice });
+    expect(access.authenticate('token-carol')).toEqual({ error: 'Unknown or revoked token' });
+  });
+
+  test('refuses expired tokens', () => {
+    const access = createAccess([
+      createClient('old', { expiresAt: Date.now() - 1000 }),
+      createClient('current', { expiresAt: Date.now() + 60_000 }),
+    ]);
+    expect(access.authenticate('token-old')).toEqual({ error: 'Token for old expired' });
+    expect('client' in access.authenticate('token-current')).toBe(true);
+  });
+});
+
+describe('scopes', () => {
+  test('limit the tools a client can call', () => {
+    const access = createAccess([]);
+    const allows = (scope: MCPClient['scope'], tool: string) =>
+      access.run(createClient('c', { scope }), () => access.allowsTool(tool));
+
+    expect(access.allowsTool('delete_note')).toBe(true);
+    expect(access.getClientId()).toBe('default');
+    expect(allows('full', 'delete_note')).toBe(true);
+    expect(allows('read-only', 'read_note')).toBe(true);
+    expect(allows('read-only', 'write_note')).toBe(false);
+    expect(allows('tasks-only', 'add_task')).toBe(true);
+    expect(allows('tasks-only', 'read_note')).toBe(false);
+    expect(allows('search-only', 'search_vault')).toBe(true);
+    expect(allows('search-only', 'list_tasks')).toBe(false);
+  });
+
+  test('the wrapped vault refuses writes from read-only and search-only clients', async () => {
+    const access = createAccess([]);
+    const vault = access.wrap(new FileSystemVaultAccess(vaultDir));
+
+    for (const scope of ['read-only', 'search-only'] as const) {
+      await access.run(createClient('reader', { scope }), async () => {
+        expect(await vault.read('Projects/plan.md')).toBe('plan');
+        await expect(vault.modify('Projects/plan.md', 'changed')).rejects.toThrow(`Access denied: reader is ${scope}`);
+        await expect(vault.create('new.md', 'x')).rejects.toThrow('Access denied');
+        await expect(vault.trash('Projects/plan.md', false)).rejects.toThrow('Access denied');
+      });
+    }
+    expect(fs.readFileSync(path.join(vaultDir, 'Projects/plan.md'), 'utf8')).toBe('plan');
+    expect(fs.existsSync(path.join(vaultDir, 'new.md'))).toBe(false);
+
+    await access.run(createClient('tasks', { scope: 'tasks-only' }), () => vault.modify('Projects/plan.md', 'done'));
+    expect(fs.readFileSync(path.join(vaultDir, 'Projects/plan.md'), 'utf8')).toBe('done');
+  });
+});
+
+describe('folders', () => {
+  test('hide files outside the client folders', async () => {
+    const access = createAccess([]);
+    const vault = access.wrap(new FileSystemVaultAccess(vaultDir));
+
+    await access.run(createClient('alice', { folders: ['Projects'] }), async () => {
+      expect(vault.getMarkdownFiles().map((file) => file.path)).toEqual(['Projects/plan.md']);
+      expect(vault.getFile('Private/diary.md')).toBeNull();
+      expect(vault.isFolder('Private')).toBe(false);
+      expect(vault.isFolder('Projects')).toBe(true);
+      await expect(vault.read('Private/diary.md')).rejects.toThrow("Private/diary.md is outside alice's folders");
+      await expect(vault.rename('Projects/plan.md', 'Private/plan.md')).rejects.toThrow('Access denied');
+      await vault.create('Projects/next.md', 'next');
+    });
+
+    expect(fs.existsSync(path.join(vaultDir, 'Projects/next.md'))).toBe(true);
+    expect(fs.existsSync(path.join(vaultDir, 'Projects/plan.md'))).toBe(true);
+    expect(vault.getMarkdownFiles()).toHaveLength(3);
+  });
+});
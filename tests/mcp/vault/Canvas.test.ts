@@ -0,0 +1,238 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  CanvasData,
+  CanvasNode,
+  addCanvasEdges,
+  addCanvasNodes,
+  describeCanvas,
+  parseCanvas,
+  removeCanvasItems,
+  stringifyCanvas,
+  validateCanvas,
+} from '../../../src/mcp/vault/Canvas';
+
+function text(id: string, x: number, y: number, width = 300, height = 150): CanvasNode {
+  return { id, type: 'text', text: id, x, y, width, height };
+}
+
+function ids(): () => string {
+  let next = 0;
+  return () => `id${++next}`;
+}
+
+describe('parseCanvas / stringifyCanvas', () => {
+  test('an empty file is an empty canvas', () => {
+    expect(parseCanvas('  \n')).toEqual({ nodes: [], edges: [] });
+  });
+
+  test('fills in missing arrays and keeps unknown fields', () => {
+    expect(parseCanvas('{"nodes":[],"custom":1}')).toEqual({ nodes: [], edges: [], custom: 1 });
+  });
+
+  test('rejects invalid JSON and non-objects', () => {
+    expect(() => parseCanvas('{nodes')).toThrow('Canvas is not valid JSON');
+    expect(() => parseCanvas('[]')).toThrow('Canvas must be a JSON object');
+  });
+
+  test('writes tab-indented JSON that parses back', () => {
+    const canvas: CanvasData = { nodes: [text('a', 0, 0)], edges: [] };
+    const content = stringifyCanvas(canvas);
+    expect(content).toContain('\n\t"nodes"');
+    expect(parseCanvas(content)).toEqual(canvas);
+  });
+});
+
+describe('validateCanvas', () => {
+  test('accepts a valid canvas', () => {
+    const canvas: CanvasData = {
+      nodes: [
+        { id: 'g', type: 'group', x: 0, y: 0, width: 800, height: 400, label: 'Sprint', backgroundStyle: 'cover' },
+        text('a', 40, 40),
+        { id: 'f', type: 'file', file: 'Plan.md', subpath: '#Goals', x: 400, y: 40, width: 400, height: 400, color: '3' },
+        { id: 'l', type: 'link', url: 'https://example.com', x: 0, y: 500, width: 400, height: 300, color: '#ff0000' },
+      ],
+      edges: [{ id: 'e', fromNode: 'a', fromSide: 'right', toNode: 'f', toSide: 'left', toEnd: 'arrow' }],
+    };
+    expect(validateCanvas(canvas)).toEqual([]);
+  });
+
+  test('requires arrays of nodes and edges', () => {
+    expect(validateCanvas({ nodes: {}, edges: [] } as unknown as CanvasData)).toEqual(['"nodes" must be an array']);
+    expect(validateCanvas({ nodes: [], edges: null } as unknown as CanvasData)).toEqual(['"edges" must be an array']);
+  });
+
+  test('reports node problems by id or position', () => {
+    const canvas = {
+      nodes: [
+        text('a', 0, 0),
+        { ...text('a', 0, 0), width: 0 },
+        { id: 'b', type: 'shape', x: 0, y: '1', width: 1, height: 1 },
+        { id: 'c', type: 'text', x: 0, y: 0, width: 1, height: 1, color: 'red' },
+        { id: 'd', type: 'file', subpath: 'Goals', x: 0, y: 0, width: 1, height: 1 },
+        { id: 'e', type: 'link', x: 0, y: 0, width: 1, height: 1 },
+        { id: 'f', type: 'group', label: 3, backgroundStyle: 'tile', x: 0, y: 0, width: 1, height: 1 },
+        'oops',
+      ],
+      edges: [],
+    } as unknown as CanvasData;
+
+    expect(validateCanvas(canvas)).toEqual([
+      'Node "a": duplicate id',
+      'Node "a": width and height must be positive',
+      'Node "b": type must be one of text, file, link, group',
+      'Node "b": y must be a number',
+      'Node "c": color must be "1"-"6" or a hex color like #ff0000',
+      'Node "c": text nodes need text',
+      'Node "d": file nodes need a file path',
+      'Node "d": subpath must start with #',
+      'Node "e": link nodes need a url',
+      'Node "f": label must be a string',
+      'Node "f": backgroundStyle must be one of cover, ratio, repeat',
+      'Node 8 must be an object',
+    ]);
+  });
+
+  test('reports edge problems', () => {
+    const canvas = {
+      nodes: [text('a', 0, 0)],
+      edges: [
+        { id: 'e', fromNode: 'a', toNode: 'missing', fromSide: 'middle', toEnd: 'dot', label: 1 },
+        { id: 'e', fromNode: 'a', toNode: 'a' },
+        { fromNode: 'a', toNode: 'a' },
+      ],
+    } as unknown as CanvasData;
+
+    expect(validateCanvas(canvas)).toEqual([
+      'Edge "e": fromSide must be one of top, right, bottom, left',
+      'Edge "e": toNode must be the id of a node on the canvas',
+      'Edge "e": toEnd must be one of none, arrow',
+      'Edge "e": label must be a string',
+      'Edge "e": duplicate id',
+      'Edge 3 needs a string id',
+    ]);
+  });
+});
+
+describe('describeCanvas', () => {
+  test('puts each node in the smallest group containing it', () => {
+    const canvas: CanvasData = {
+      nodes: [
+        { id: 'outer', type: 'group', x: 0, y: 0, width: 1000, height: 1000 },
+        { id: 'inner', type: 'group', x: 100, y: 100, width: 500, height: 500 },
+        text('a', 150, 150),
+        text('b', 700, 700),
+        text('c', 2000, 0),
+      ],
+      edges: [],
+    };
+
+    const summary = describeCanvas(canvas);
+    expect(summary.nodes.map((node) => [node.id, node.group])).toEqual([
+      ['a', 'inner'],
+      ['b', 'outer'],
+      ['c', undefined],
+    ]);
+    expect(summary.groups.map((group) => [group.id, group.group, group.nodes])).toEqual([
+      ['outer', undefined, ['inner', 'b']],
+      ['inner', 'outer', ['a']],
+    ]);
+  });
+});
+
+describe('addCanvasNodes', () => {
+  test('lays out unpositioned nodes in rows of four', () => {
+    const canvas: CanvasData = { nodes: [], edges: [] };
+    const added = addCanvasNodes(canvas, Array.from({ length: 5 }, () => ({ type: 'text' as const, text: 'x' })), ids());
+
+    expect(added.map((node) => [node.id, node.x, node.y, node.width, node.height])).toEqual([
+      ['id1', 0, 0, 300, 150],
+      ['id2', 360, 0, 300, 150],
+      ['id3', 720, 0, 300, 150],
+      ['id4', 1080, 0, 300, 150],
+      ['id5', 0, 210, 300, 150],
+    ]);
+    expect(validateCanvas(canvas)).toEqual([]);
+  });
+
+  test('places new nodes below existing content and keeps given positions', () => {
+    const canvas: CanvasData = { nodes: [text('a', 100, 50, 200, 100)], edges: [] };
+    const [below, placed] = addCanvasNodes(
+      canvas,
+      [{ type: 'link', url: 'https://example.com' }, { type: 'text', text: 'x', x: -500.4, y: 20.6 }],
+      ids()
+    );
+
+    expect([below.x, below.y, below.width, below.height]).toEqual([100, 210, 400, 300]);
+    expect([placed.x, placed.y]).toEqual([-500, 21]);
+  });
+
+  test('packs new children inside a new group, listed first', () => {
+    const canvas: CanvasData = { nodes: [], edges: [] };
+    addCanvasNodes(
+      canvas,
+      [
+        { id: 'g', type: 'group', label: 'Sprint', children: ['a', 'b'] },
+        { id: 'a', type: 'text', text: 'A' },
+        { id: 'b', type: 'text', text: 'B' },
+      ],
+      ids()
+    );
+
+    const [group, a, b] = canvas.nodes;
+    expect(group).toEqual({ id: 'g', type: 'group', label: 'Sprint', x: 0, y: 0, width: 740, height: 230 });
+    expect([a.x, a.y, b.x, b.y]).toEqual([40, 40, 400, 40]);
+    expect(describeCanvas(canvas).groups[0].nodes).toEqual(['a', 'b']);
+  });
+
+  test('sizes a new group around existing children', () => {
+    const canvas: CanvasData = { nodes: [text('a', 0, 0), text('b', 500, 300)], edges: [] };
+    const [group] = addCanvasNodes(canvas, [{ type: 'group', children: ['a', 'b'] }], ids());
+
+    expect([group.x, group.y, group.width, group.height]).toEqual([-40, -40, 880, 530]);
+    expect(describeCanvas(canvas).groups[0].nodes).toEqual(['a', 'b']);
+  });
+
+  test('rejects taken ids and unknown children', () => {
+    const canvas: CanvasData = { nodes: [text('a', 0, 0)], edges: [] };
+    expect(() => addCanvasNodes(canvas, [{ id: 'a', type: 'text', text: 'x' }], ids())).toThrow(
+      'Node 1: id "a" is already used'
+    );
+    expect(() => addCanvasNodes(canvas, [{ id: 'g', type: 'group', children: ['zzz'] }], ids())).toThrow(
+      'Group g: unknown children zzz'
+    );
+    expect(canvas.nodes).toHaveLength(1);
+  });
+});
+
+describe('addCanvasEdges / removeCanvasItems', () => {
+  test('adds edges with generated ids and rejects taken ones', () => {
+    const canvas: CanvasData = { nodes: [text('a', 0, 0), text('b', 400, 0)], edges: [] };
+    const [edge] = addCanvasEdges(canvas, [{ fromNode: 'a', toNode: 'b', toEnd: 'arrow' }], ids());
+
+    expect(edge).toEqual({ id: 'id1', fromNode: 'a', toNode: 'b', toEnd: 'arrow' });
+    expect(() => addCanvasEdges(canvas, [{ id: 'id1', fromNode: 'b', toNode: 'a' }], ids())).toThrow(
+      'Edge 1: id "id1" is already used'
+    );
+  });
+
+  test('removing a node removes the edges attached to it', () => {
+    const canvas: CanvasData = {
+      nodes: [text('a', 0, 0), text('b', 400, 0), text('c', 800, 0)],
+      edges: [
+        { id: 'ab', fromNode: 'a', toNode: 'b' },
+        { id: 'bc', fromNode: 'b', toNode: 'c' },
+        { id: 'ca', fromNode: 'c', toNode: 'a' },
+      ],
+    };
+
+    removeCanvasItems(canvas, ['a'], ['bc']);
+    expect(canvas.nodes.map((node) => node.id)).toEqual(['b', 'c']);
+    expect(canvas.edges).toEqual([]);
+  });
+
+  test('rejects ids that are not on the canvas', () => {
+    const canvas: CanvasData = { nodes: [text('a', 0, 0)], edges: [] };
+    expect(() => removeCanvasItems(canvas, ['x'], ['y'])).toThrow('Not on the canvas: x, y');
+    expect(canvas.nodes).toHaveLength(1);
+  });
+});
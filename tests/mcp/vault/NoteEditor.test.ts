@@ -0,0 +1,143 @@
+import { describe, expect, test } from 'bun:test';
+import { applyNoteEdit, listHeadings } from '../../../src/mcp/vault/NoteEditor';
+
+const NOTE = [
+  '# Hello',
+  'Intro',
+  '',
+  '## Tasks',
+  '- [ ] one',
+  '- [ ] two ^task-two',
+  '',
+  '## Notes',
+  'First paragraph',
+  'continues here ^para',
+  '',
+].join('\n');
+
+describe('heading targets', () => {
+  test('append adds to the end of the section body, before blank lines', () => {
+    expect(applyNoteEdit(NOTE, { operation: 'append', heading: 'Tasks', content: '- [ ] three' })).toBe(
+      NOTE.replace('two ^task-two\n', 'two ^task-two\n- [ ] three\n')
+    );
+  });
+
+  test('prepend adds right below the heading', () => {
+    expect(applyNoteEdit(NOTE, { operation: 'prepend', heading: '## Tasks', content: '- [ ] zero\n' })).toBe(
+      NOTE.replace('## Tasks\n', '## Tasks\n- [ ] zero\n')
+    );
+  });
+
+  test('replace swaps the section body and keeps the heading', () => {
+    expect(applyNoteEdit(NOTE, { operation: 'replace', heading: 'Hello > Tasks', content: 'done' })).toBe(
+      NOTE.replace('- [ ] one\n- [ ] two ^task-two\n', 'done\n')
+    );
+  });
+
+  test('delete removes the heading and its section', () => {
+    expect(applyNoteEdit(NOTE, { operation: 'delete', heading: 'Tasks' })).toBe(
+      NOTE.replace('## Tasks\n- [ ] one\n- [ ] two ^task-two\n\n', '')
+    );
+  });
+
+  test('insert_before and insert_after go around the whole section', () => {
+    expect(applyNoteEdit(NOTE, { operation: 'insert_before', heading: 'Tasks', content: 'before' })).toBe(
+      NOTE.replace('## Tasks', 'before\n## Tasks')
+    );
+    expect(applyNoteEdit(NOTE, { operation: 'insert_after', heading: 'Tasks', content: 'after' })).toBe(
+      NOTE.replace('\n## Notes', '\nafter\n## Notes')
+    );
+  });
+
+  test('a section at the end of the file keeps the final newline', () => {
+    const note = '# Hello\nbody\n';
+    expect(applyNoteEdit(note, { operation: 'insert_after', heading: 'Hello', content: 'inserted line' })).toBe(
+      '# Hello\nbody\ninserted line\n'
+    );
+    expect(applyNoteEdit(note, { operation: 'append', heading: 'Hello', content: 'more' })).toBe('# Hello\nbody\nmore\n');
+    expect(applyNoteEdit('intro\n# Hello\nbody\n', { operation: 'delete', heading: 'Hello' })).toBe('intro\n');
+  });
+
+  test('a section at the end of a file without a final newline', () => {
+    expect(applyNoteEdit('# Hello\nbody', { operation: 'insert_after', heading: 'Hello', content: 'x' })).toBe(
+      '# Hello\nbody\nx'
+    );
+  });
+
+  test('reports missing and ambiguous headings', () => {
+    expect(() => applyNoteEdit(NOTE, { operation: 'delete', heading: 'Nope' })).toThrow(
+      'Heading not found: "Nope". Headings: # Hello, ## Tasks, ## Notes'
+    );
+    expect(() => applyNoteEdit('## A\n## A\n', { operation: 'delete', heading: 'A' })).toThrow(
+      'Heading "A" is ambiguous (lines 1, 2)'
+    );
+  });
+});
+
+describe('block targets', () => {
+  test('a list item block is the item line', () => {
+    expect(applyNoteEdit(NOTE, { operation: 'insert_after', block: 'task-two', content: '- [ ] three' })).toBe(
+      NOTE.replace('^task-two\n', '^task-two\n- [ ] three\n')
+    );
+  });
+
+  test('a paragraph block spans the paragraph, and replace keeps the id', () => {
+    expect(applyNoteEdit(NOTE, { operation: 'replace', block: '^para', content: 'Rewritten' })).toBe(
+      NOTE.replace('First paragraph\ncontinues here ^para', 'Rewritten ^para')
+    );
+  });
+
+  test('rejects unknown and invalid ids', () => {
+    expect(() => applyNoteEdit(NOTE, { operation: 'delete', block: 'nope' })).toThrow('Block not found: ^nope');
+    expect(() => applyNoteEdit(NOTE, { operation: 'delete', block: 'a b' })).toThrow('Invalid block id: a b');
+  });
+});
+
+describe('line targets', () => {
+  test('replace, delete and insert on a one-based inclusive range', () => {
+    const note = 'a\nb\nc\n';
+    expect(applyNoteEdit(note, { operation: 'replace', lines: { start: 2, end: 3 }, content: 'x' })).toBe('a\nx\n');
+    expect(applyNoteEdit(note, { operation: 'delete', lines: { start: 1 } })).toBe('b\nc\n');
+    expect(applyNoteEdit(note, { operation: 'insert_before', lines: { start: 2 }, content: 'x\n' })).toBe('a\nx\nb\nc\n');
+    expect(applyNoteEdit(note, { operation: 'insert_after', lines: { start: 3 }, content: 'x' })).toBe('a\nb\nc\nx\n');
+  });
+
+  test('rejects invalid ranges and append', () => {
+    expect(() => applyNoteEdit('a\n', { operation: 'delete', lines: { start: 2, end: 1 } })).toThrow(
+      'lines must be { start, end } with 1 <= start <= end'
+    );
+    expect(() => applyNoteEdit('a\n', { operation: 'delete', lines: { start: 5 } })).toThrow('past the end');
+    expect(() => applyNoteEdit('a\n', { operation: 'append', lines: { start: 1 }, content: 'x' })).toThrow(
+      'append is only supported for heading targets'
+    );
+  });
+});
+
+describe('text targets', () => {
+  test('edits around a unique match', () => {
+    const note = 'The quick fox';
+    expect(applyNoteEdit(note, { operation: 'replace', match: 'quick', content: 'slow' })).toBe('The slow fox');
+    expect(applyNoteEdit(note, { operation: 'delete', match: ' quick' })).toBe('The fox');
+    expect(applyNoteEdit(note, { operation: 'insert_before', match: 'fox', content: 'brown ' })).toBe('The quick brown fox');
+    expect(applyNoteEdit(note, { operation: 'insert_after', match: 'The', content: ' very' })).toBe('The very quick fox');
+  });
+
+  test('rejects missing and repeated matches', () => {
+    expect(() => applyNoteEdit('a a', { operation: 'delete', match: 'b' })).toThrow('match not found in note');
+    expect(() => applyNoteEdit('a a', { operation: 'delete', match: 'a' })).toThrow('match occurs 2 times');
+  });
+});
+
+describe('applyNoteEdit', () => {
+  test('needs exactly one target and content for writes', () => {
+    expect(() => applyNoteEdit('a', { operation: 'delete' })).toThrow('Specify exactly one target');
+    expect(() => applyNoteEdit('a', { operation: 'delete', match: 'a', heading: 'A' })).toThrow('Specify exactly one target');
+    expect(() => applyNoteEdit('a', { operation: 'replace', match: 'a' })).toThrow('"content" is required for replace');
+  });
+});
+
+describe('listHeadings', () => {
+  test('lists headings with their level', () => {
+    expect(listHeadings(NOTE)).toEqual(['# Hello', '## Tasks', '## Notes']);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test';
+import { NoteVersions, VersionConflictError } from '../../../src/mcp/vault/NoteVersions';
+import { hashContent } from '../../../src/utils/hash';
+
+function conflict(fn: () => void): VersionConflictError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(VersionConflictError);
+    return error as VersionConflictError;
+  }
+  throw new Error('Expected a VersionConflictError');
+}
+
+describe('NoteVersions', () => {
+  test('remember returns the content hash', () => {
+    expect(new NoteVersions().remember('hello')).toBe(hashContent('hello'));
+  });
+
+  test('check passes when the hash matches, ignoring case and whitespace', () => {
+    const versions = new NoteVersions();
+    const hash = versions.remember('hello');
+    expect(() => versions.check('a.md', hash, 'hello')).not.toThrow();
+    expect(() => versions.check('a.md', ` ${hash.toUpperCase()} `, 'hello')).not.toThrow();
+  });
+
+  test('a changed note conflicts with a diff from the remembered read', () => {
+    const versions = new NoteVersions();
+    const hash = versions.remember('line one\nline two\n');
+
+    const error = conflict(() => versions.check('a.md', hash, 'line one\nline 2\n'));
+    expect(error.path).toBe('a.md');
+    expect(error.currentHash).toBe(hashContent('line one\nline 2\n'));
+    expect(error.diff).toContain('-line two');
+    expect(error.diff).toContain('+line 2');
+  });
+
+  test('a deleted note conflicts with a null current hash', () => {
+    const versions = new NoteVersions();
+    const error = conflict(() => versions.check('a.md', versions.remember('x'), null));
+    expect(error.currentHash).toBeNull();
+    expect(error.message).toContain('was deleted');
+  });
+
+  test('an unknown hash conflicts without a diff', () => {
+    const error = conflict(() => new NoteVersions().check('a.md', hashContent('old'), 'new'));
+    expect(error.diff).toBeNull();
+  });
+
+  test('forgets the oldest reads past the limit', () => {
+    const versions = new NoteVersions();
+    const first = versions.remember('version 0');
+    for (let i = 1; i <= 50; i++) {
+      versions.remember(`version ${i}`);
+    }
+    expect(conflict(() => versions.check('a.md', first, 'current')).diff).toBeNull();
+  });
+
+  test('redacts both versions before diffing', () => {
+    const versions = new NoteVersions((text, path) => `${path}: ${text.replace(/sk-\w+/g, '[KEY]')}`);
+    const hash = versions.remember('old key sk-old\n');
+
+    const diff = conflict(() => versions.check('a.md', hash, 'new key sk-new\n')).diff!;
+    expect(diff).not.toContain('sk-old');
+    expect(diff).not.toContain('sk-new');
+    expect(diff).toContain('+a.md: new key [KEY]');
+  });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnapshotStore, describeChange } from '../../../src/mcp/vault/SnapshotStore';
+import { FileSystemVaultAccess } from '../../../src/mcp/vault/FileSystemVaultAccess';
+import type { VaultAccess } from '../../../src/mcp/vault/VaultAccess';
+import { DEFAULT_SETTINGS, ObsidianCCSettings } from '../../../src/settings/SettingsSchema';
+
+let vaultDir: string;
+let store: SnapshotStore;
+let vault: VaultAccess;
+
+function createStore(overrides: Partial<ObsidianCCSettings> = {}): void {
+  store = new SnapshotStore(new FileSystemVaultAccess(vaultDir), { ...DEFAULT_SETTINGS, ...overrides });
+  vault = store.wrap();
+}
+
+function writeVaultFile(name: string, content: string | Buffer): void {
+  const absolute = path.join(vaultDir, name);
+  fs.mkdirSync(path.dirname(absolute), { recursive: true });
+  fs.writeFileSync(absolute, content);
+}
+
+function readVaultFile(name: string): string | null {
+  const absolute = path.join(vaultDir, name);
+  return fs.existsSync(absolute) ? fs.readFileSync(absolute, 'utf8') : null;
+}
+
+function track<T>(fn: () => Promise<T>, tool = 'write_note', sessionId = 's1'): Promise<T> {
+  return store.track({ tool, sessionId }, fn);
+}
+
+function bytes(...values: number[]): ArrayBuffer {
+  return new Uint8Array(values).buffer;
+}
+
+beforeEach(() => {
+  vaultDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshots-'));
+  writeVaultFile('a.md', 'original a\n');
+  createStore();
+});
+
+afterEach(() => {
+  fs.rmSync(vaultDir, { recursive: true, force: true });
+});
+
+describe('recording', () => {
+  test('records writes made inside track(), newest first', async () => {
+    await track(() => vault.create('b.md', 'new b'), 'create_note');
+    await track(() => vault.modify('a.md', 'changed a\n'));
+    await track(() => vault.rename('b.md', 'Archive/b.md'), 'move_note');
+    await track(() => vault.processFrontMatter('a.md', (fm) => (fm.status = 'done')), 'update_frontmatter');
+    await track(() => vault.trash('Archive/b.md', false), 'delete_note', 's2');
+    await track(() => vault.writeBinary('img.png', bytes(1, 2, 3)), 'write_attachment');
+
+    const changes = await store.list();
+    expect(changes.map(describeChange)).toEqual([
+      'create img.png',
+      'delete Archive/b.md',
+      'modify a.md',
+      'move b.md → Archive/b.md',
+      'modify a.md',
+      'create b.md',
+    ]);
+    expect(changes.map((c) => c.tool)).toEqual([
+      'write_attachment',
+      'delete_note',
+      'update_frontmatter',
+      'move_note',
+      'write_note',
+      'create_note',
+    ]);
+    expect(changes[1].sessionId).toBe('s2');
+    expect(changes[0].binary).toBe(true);
+    expect(changes[5].before).toBeNull();
+  });
+
+  test('records nothing outside track() or with retention off', async () => {
+    await vault.modify('a.md', 'untracked\n');
+    createStore({ snapshotRetentionMb: 0 });
+    await track(() => vault.modify('a.md', 'not kept\n'));
+    expect(await store.list()).toEqual([]);
+  });
+
+  test('keeps the history in the plugin data folder', async () => {
+    await track(() => vault.modify('a.md', 'changed a\n'));
+    createStore();
+    expect((await store.list()).map(describeChange)).toEqual(['modify a.md']);
+  });
+
+  test('drops the oldest changes past the retention size', async () => {
+    createStore({ snapshotRetentionMb: 25 / (1024 * 1024) });
+    await track(() => vault.modify('a.md', 'second version\n'));
+    await track(() => vault.modify('a.md', 'third version\n'));
+    expect((await store.list()).map((c) => c.id)).toHaveLength(1);
+  });
+});
+
+describe('undo', () => {
+  test('reverts a modify', async () => {
+    await track(() => vault.modify('a.md', 'changed a\n'));
+    const reverted = await store.undoLast('s1');
+    expect(reverted.reverted).toBe(true);
+    expect(readVaultFile('a.md')).toBe('original a\n');
+    await expect(store.undo(reverted.id)).rejects.toThrow('Already undone: modify a.md');
+  });
+
+  test('reverts a create by trashing the file', async () => {
+    await track(() => vault.create('b.md', 'new b'));
+    await store.undoLast();
+    expect(readVaultFile('b.md')).toBeNull();
+  });
+
+  test('reverts a move and a trash', async () => {
+    await track(() => vault.rename('a.md', 'Archive/a.md'));
+    await store.undoLast();
+    expect(readVaultFile('a.md')).toBe('original a\n');
+    expect(readVaultFile('Archive/a.md')).toBeNull();
+
+    await track(() => vault.trash('a.md', false));
+    expect(readVaultFile('a.md')).toBeNull();
+    await store.undoLast();
+    expect(readVaultFile('a.md')).toBe('original a\n');
+  });
+
+  test('reverts attachment writes', async () => {
+    writeVaultFile('img.png', Buffer.from([1, 2, 3]));
+    await track(() => vault.writeBinary('img.png', bytes(9, 9)));
+    await track(() => vault.writeBinary('Diagrams/new.png', bytes(4)));
+
+    const result = await store.undoSession('s1');
+    expect(result.reverted.map(describeChange)).toEqual(['create Diagrams/new.png', 'modify img.png']);
+    expect([...fs.readFileSync(path.join(vaultDir, 'img.png'))]).toEqual([1, 2, 3]);
+    expect(fs.existsSync(path.join(vaultDir, 'Diagrams/new.png'))).toBe(false);
+  });
+
+  test('refuses when the note changed since, unless forced', async () => {
+    await track(() => vault.modify('a.md', 'agent\n'));
+    writeVaultFile('a.md', 'user edit\n');
+
+    await expect(store.undoLast()).rejects.toThrow('a.md has changed since write_note; undo with force to overwrite it');
+    await store.undoLast(undefined, true);
+    expect(readVaultFile('a.md')).toBe('original a\n');
+  });
+
+  test('undoSession stops at the first change it cannot revert', async () => {
+    await track(() => vault.modify('a.md', 'first\n'));
+    await track(() => vault.create('b.md', 'b'));
+    writeVaultFile('b.md', 'user edit');
+
+    const result = await store.undoSession('s1');
+    expect(result.reverted).toEqual([]);
+    expect(result.error).toContain('b.md has changed since');
+    expect(readVaultFile('a.md')).toBe('first\n');
+    await expect(store.undoSession('other')).rejects.toThrow('No changes to undo in session other');
+  });
+});
+
+describe('rollback support', () => {
+  test('untracked() writes are not recorded and forget() drops collected changes', async () => {
+    const ids: string[] = [];
+    await track(async () => {
+      await vault.modify('a.md', 'kept\n');
+      await store.collect(ids, () => vault.create('b.md', 'rolled back'));
+      await store.untracked(() => vault.delete('b.md'));
+    });
+    expect(ids).toHaveLength(1);
+    expect((await store.list()).map(describeChange)).toEqual(['create b.md', 'modify a.md']);
+
+    await store.forget(ids);
+    expect((await store.list()).map(describeChange)).toEqual(['modify a.md']);
+  });
+});
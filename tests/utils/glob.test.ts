@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+import { globToRegExp, matchesGlob } from '../../src/utils/glob';
+
+describe('globToRegExp', () => {
+  test('* stays within one path segment', () => {
+    expect(globToRegExp('Inbox/*.md').test('Inbox/a.md')).toBe(true);
+    expect(globToRegExp('Inbox/*.md').test('Inbox/sub/a.md')).toBe(false);
+  });
+
+  test('**/ matches zero or more folders', () => {
+    const regex = globToRegExp('**/secret.md');
+    expect(regex.test('secret.md')).toBe(true);
+    expect(regex.test('a/b/secret.md')).toBe(true);
+  });
+
+  test('? matches one character and {a,b} alternatives', () => {
+    expect(globToRegExp('day-?.md').test('day-1.md')).toBe(true);
+    expect(globToRegExp('day-?.md').test('day-10.md')).toBe(false);
+    expect(globToRegExp('*.{md,txt}').test('notes.txt')).toBe(true);
+    expect(globToRegExp('*.{md,txt}').test('notes.csv')).toBe(false);
+  });
+
+  test('escapes regex characters and ignores case', () => {
+    expect(globToRegExp('a+b (1).md').test('A+B (1).MD')).toBe(true);
+    expect(globToRegExp('a.md').test('abmd')).toBe(false);
+  });
+});
+
+describe('matchesGlob', () => {
+  test('a folder name matches everything inside it', () => {
+    expect(matchesGlob('Inbox/a.md', 'Inbox')).toBe(true);
+    expect(matchesGlob('Inbox/sub/a.md', 'Inbox/')).toBe(true);
+    expect(matchesGlob('Inbox', 'Inbox/')).toBe(true);
+    expect(matchesGlob('Inboxes/a.md', 'Inbox')).toBe(false);
+  });
+
+  test('ignores a leading slash and rejects an empty glob', () => {
+    expect(matchesGlob('Inbox/a.md', '/Inbox/**')).toBe(true);
+    expect(matchesGlob('Inbox/a.md', '  ')).toBe(false);
+  });
+});